@@ -19,6 +19,13 @@ const config: Config = {
    */
   useHttps: false,
 
+  /**
+   * If `true`, the server will watch the config file (`config.json`, `config.yaml` or the one given through
+   * `--config`) and apply its changes as soon as it's saved, just like the "reload" terminal command does. Settings
+   * that can only change on a restart (such as the port and `maxPlayers`) keep their current values.
+   */
+  watchConfigFile: false,
+
   /**
    * Room name used by the server upon startup. The room name can later be
    * changed through the console while the server is running.
@@ -59,6 +66,23 @@ const config: Config = {
    */
   autoAssignHost: true,
 
+  /**
+   * Controls whether the host can change the room's name and password from
+   * the game. If disabled, attempts to change them are rejected, and the
+   * values set through the console (or the room's startup values) always
+   * win.
+   */
+  hostRoomSettings: {
+    /**
+     * If `true`, the host can change the room's name.
+     */
+    allowChangingName: true,
+    /**
+     * If `true`, the host can change the room's password.
+     */
+    allowChangingPassword: true,
+  },
+
   /**
    * Timestamp format used for chatlogs.
    */
@@ -91,15 +115,17 @@ const config: Config = {
        */
       maxLength: 32,
       /**
-       * Players whose username matches this regular expression will not be allowed to join.
+       * Players whose username matches this regular expression will not be allowed to join. In JSON and YAML config
+       * files, the regular expression is written as a string (such as `"[^A-Za-z0-9_ ]"`).
        */
       disallowRegex: /[^A-Za-z0-9_ ]/,
     },
 
     /**
-     * Restrictions for player levels. Keep in mind that levels can be easily spoofed as Manifold cannot check the
-     * validity of a player's level. Therefore, people may spoof their levels to bypass min/max level restrictions,
-     * show a ridiculously high number or show a piece of text in place of the level.
+     * Restrictions for player levels. Keep in mind that unless server-side XP is enabled (see `xp.enabled`),
+     * levels can be easily spoofed as Manifold cannot check the validity of a player's level. Therefore, people may
+     * spoof their levels to bypass min/max level restrictions, show a ridiculously high number or show a piece of text
+     * in place of the level.
      */
     levels: {
       /**
@@ -170,7 +196,574 @@ const config: Config = {
        * Ratelimit for transferring host privileges.
        */
       transferringHost: { amount: 5, timeframe: 10, restore: 60 },
+      /**
+       * Ratelimit for voting maps and asking for their votes.
+       */
+      votingMaps: { amount: 5, timeframe: 5, restore: 10 },
+      /**
+       * Ratelimit for changing the room's name or password.
+       */
+      changingRoomSettings: { amount: 4, timeframe: 5, restore: 10 },
+    },
+
+    /**
+     * Chat filter and anti-spam settings. Besides chat messages, the filter can also be applied to usernames and map
+     * requests.
+     *
+     * Every rule has an `action`, which determines what happens to messages that break it:
+     *
+     * - `censor`: the offending part of the message is hidden, and the rest of the message is sent.
+     * - `block`: the message is not sent, and the player receives a penalty (see `penalties`).
+     * - `mute`: the message is not sent, and the player is muted right away.
+     */
+    chatFilter: {
+      /**
+       * If `true`, chat messages will go through the chat filter before being sent to the room.
+       */
+      enabled: true,
+      /**
+       * If `true`, players whose username breaks any of the word, pattern, link or zalgo rules will not be allowed to
+       * join.
+       */
+      applyToUsernames: true,
+      /**
+       * If `true`, the name and author of requested maps will also go through the word, pattern, link and zalgo rules.
+       */
+      applyToMapRequests: true,
+      /**
+       * Words that players can't say. Only whole words are matched, so blocking "ass" won't affect "class". Matching
+       * is case-insensitive.
+       *
+       * Example: `[{ pattern: 'heck', action: 'censor' }, { pattern: 'dang', action: 'block' }]`
+       */
+      blockedWords: [],
+      /**
+       * Regular expressions that messages can't match. Matching is case-insensitive.
+       *
+       * Example: `[{ pattern: 'free\\s*skins', action: 'mute' }]`
+       */
+      blockedPatterns: [],
+      /**
+       * Filter for players sending the same message repeatedly. Repeated messages can't be censored, so `censor`
+       * works like `block`.
+       */
+      repeatedMessages: {
+        enabled: true,
+        action: 'block',
+        /**
+         * Amount of times a player can send the same message within `timeframe` seconds.
+         */
+        maxRepeats: 3,
+        timeframe: 30,
+      },
+      /**
+       * Filter for messages with too many capital letters. Censoring turns the message into lowercase.
+       */
+      caps: {
+        enabled: false,
+        action: 'censor',
+        /**
+         * Messages with less letters than this are never filtered, so that short messages like "GG" or "LOL" are
+         * allowed.
+         */
+        minLength: 8,
+        /**
+         * Maximum ratio (from 0 to 1) of capital letters to letters that a message can have.
+         */
+        maxRatio: 0.7,
+      },
+      /**
+       * Filter for messages containing links. Censoring hides the links.
+       */
+      links: {
+        enabled: false,
+        action: 'censor',
+        /**
+         * Domains that players can link to (for example, `bonk.io`). Subdomains of these domains are also allowed.
+         */
+        allowedDomains: ['bonk.io'],
+      },
+      /**
+       * Filter for zalgo text (letters with lots of diacritics stacked on top of them) and invisible characters (such
+       * as zero-width spaces and text direction overrides). Censoring removes the excess diacritics and the invisible
+       * characters.
+       */
+      zalgo: {
+        enabled: true,
+        action: 'censor',
+        /**
+         * Maximum amount of diacritics that can be stacked on a single letter.
+         */
+        maxCombiningMarks: 3,
+      },
+      /**
+       * Penalties given to players whose messages get blocked. Every blocked message counts as an offense, and
+       * penalties escalate: the first offenses only get the player a warning, then they get muted, and then kicked.
+       */
+      penalties: {
+        /**
+         * Amount of offenses after which a player gets muted. Set to 0 to never mute players.
+         */
+        muteAfter: 3,
+        /**
+         * How long (in seconds) players muted by the chat filter stay muted.
+         */
+        muteDuration: 300,
+        /**
+         * Amount of offenses after which a player gets kicked. Set to 0 to never kick players. Must be greater than
+         * `muteAfter`, unless either of them is 0.
+         */
+        kickAfter: 5,
+        /**
+         * A player's offenses are forgotten after this many seconds pass without them committing a new one.
+         */
+        offenseTimeframe: 600,
+      },
+    },
+
+    /**
+     * Packet validation settings. Every packet sent by players is checked against the format the server expects
+     * (types, ranges, player ids, team numbers and string lengths) before it's handled, so that malformed packets
+     * can't crash the server or corrupt the room's state.
+     */
+    packetValidation: {
+      /**
+       * If `true`, invalid packets are dropped instead of being handled.
+       */
+      enabled: true,
+      /**
+       * Players who send this many invalid packets within `timeframe` seconds are disconnected. Set to 0 to never
+       * disconnect players.
+       */
+      maxInvalidPackets: 10,
+      /**
+       * Time (in seconds) over which invalid packets are counted.
+       */
+      timeframe: 60,
+      /**
+       * If `true`, every dropped packet is reported in the terminal.
+       */
+      logInvalidPackets: false,
     },
+
+    /**
+     * Sanity checks and flood protection for the inputs sent by players during games. Inputs are dropped when no
+     * game is running, when they come from spectators, when they arrive too often, when they're too big, or when
+     * their frame number goes backwards. Players who keep sending invalid inputs are handled according to `action`.
+     */
+    inputs: {
+      /**
+       * If `true`, inputs are checked before being sent to the rest of the room.
+       */
+      enabled: true,
+      /**
+       * Maximum amount of input packets a player can send per second. bonk runs at 30 ticks per second and inputs can
+       * only change once per tick, so anything above 30 (plus some leeway for network jitter) is a flood.
+       */
+      maxPerSecond: 40,
+      /**
+       * Maximum size of an input packet, in characters of JSON.
+       */
+      maxSize: 200,
+      /**
+       * What happens to players who send `maxViolations` invalid inputs within `timeframe` seconds:
+       *
+       * - `drop`: nothing besides dropping the inputs.
+       * - `warn`: the player is told their inputs are being dropped.
+       * - `kick`: the player is kicked.
+       * - `ban`: the player is banned for `banDuration` seconds.
+       */
+      action: 'kick',
+      maxViolations: 30,
+      timeframe: 10,
+      /**
+       * Duration (in seconds) of the bans issued when `action` is `ban`. Set to 0 to ban players permanently.
+       */
+      banDuration: 3600,
+    },
+  },
+
+  /**
+   * Settings for chat commands, which allow players to perform certain actions by sending chat messages that start
+   * with a prefix (for example, "!help"). Replies to commands can only be seen by the player who used the command.
+   */
+  chatCommands: {
+    /**
+     * If `true`, chat messages starting with the command prefix will be treated as commands instead of being sent to
+     * the room.
+     */
+    enabled: true,
+    /**
+     * Prefix that chat messages must start with to be treated as commands.
+     */
+    prefix: '!',
+  },
+
+  /**
+   * Settings for player roles, which give players moderation powers (usable through chat commands) without giving
+   * them host privileges. Roles are managed through the "role" and "roles" terminal commands.
+   *
+   * - Moderators can kick players, mute players and move players to other teams.
+   * - Admins can do everything moderators can, and can also ban and unban players and transfer host privileges.
+   *
+   * Players with a role can't be kicked or banned by a host or a player whose role doesn't rank above theirs.
+   */
+  roles: {
+    /**
+     * If `true`, players only get their role if they connect from one of the addresses they used when they were
+     * given the role (or when it was last updated). Manifold cannot verify that players are who they say they are, so
+     * without this, anyone could join with the username of a moderator and get their powers.
+     */
+    bindToAddress: true,
+  },
+
+  /**
+   * Settings for server-side XP. By default, the server trusts the level that players say they have when they join,
+   * which can be spoofed. When server-side XP is enabled, the server keeps track of the XP of every account (in their
+   * profile) instead, awarding it when players ask for it during games, and uses the level calculated from it as the
+   * level of the player, including for the `minLevel` and `maxLevel` restrictions. Guests are always level 0.
+   */
+  xp: {
+    /**
+     * If `true`, levels are calculated by the server from the XP it awarded to each account, instead of being
+     * provided by the players.
+     */
+    enabled: false,
+    /**
+     * Amount of XP awarded every time a player gains XP.
+     */
+    xpPerGain: 100,
+    /**
+     * Minimum time (in seconds) between two XP gains of the same player.
+     */
+    cooldown: 20,
+    /**
+     * Maximum amount of XP a player can gain per day (UTC). Set to 0 to remove the limit.
+     */
+    dailyLimit: 18000,
+  },
+
+  /**
+   * Settings for the map playlist, a list of maps stored by the server that the room can rotate through on its own,
+   * even if there's no host. Maps are added to the playlist through the "playlistadd" terminal command, which adds the
+   * map currently selected in the room.
+   */
+  playlist: {
+    /**
+     * If `true`, the server will change the map to the next one in the playlist every time the room returns to the
+     * lobby after a game.
+     */
+    autoAdvance: false,
+    /**
+     * Order in which the playlist is played. `sequential` plays the maps in the order they are in the playlist, while
+     * `shuffle` picks a random map every time (never the same one twice in a row).
+     */
+    order: 'sequential',
+  },
+
+  /**
+   * Settings for the room state, a snapshot of the room's name, password, game settings (map, mode, rounds, teams and
+   * balance), host and the teams of its players, saved to the `roomstate.json` file of the room every few seconds.
+   * When the server starts, the room picks up where it left off, and players who were in the room get their team back
+   * when they rejoin. The saved state takes precedence over `roomNameOnStartup`, `roomPasswordOnStartup` and
+   * `defaultGameSettings`, and can be reset to them through the "resetroom" terminal command.
+   */
+  roomState: {
+    /**
+     * If `true`, the room's state is saved periodically and restored when the server starts.
+     */
+    enabled: true,
+    /**
+     * Time (in seconds) between two snapshots of the room's state. Snapshots are only written if the state changed.
+     * Must be greater than 0, and only changes on a restart.
+     */
+    saveInterval: 30,
+    /**
+     * If `true`, the player who was the host when the server stopped gets their host privileges back when they
+     * rejoin, unless someone else has been made host on purpose in the meantime.
+     */
+    restoreHost: true,
+  },
+
+  /**
+   * Settings for the event journal, an append-only file in JSON Lines format where every room event (joins, leaves,
+   * chat messages, map and mode changes, host transfers, kicks, bans, games starting and ending...) is written as soon
+   * as it happens. Each room has its own journal, stored in the `journal` folder of the room. Past events can be
+   * queried through the "log" terminal command.
+   */
+  journal: {
+    /**
+     * If `true`, room events will be written to the journal.
+     */
+    enabled: true,
+    /**
+     * Size (in kilobytes) that the journal file can reach before being rotated, that is, renamed to include the time
+     * it was rotated at, so that a new journal file can be started.
+     */
+    maxFileSize: 5120,
+    /**
+     * Maximum amount of rotated journal files kept per room. The oldest files are deleted first. Set to 0 to keep
+     * every file.
+     */
+    maxFiles: 20,
+    /**
+     * Rotated journal files older than this many days are deleted. Set to 0 to keep files regardless of their age.
+     */
+    maxAge: 30,
+  },
+
+  /**
+   * Settings for game recordings. When enabled, every game (from the moment it starts to the moment the room returns
+   * to the lobby) is recorded, including the inputs of every player, and saved in the `recordings` folder of the room.
+   * Recordings can be listed, deleted and exported through the "recordings", "deleterecording" and "exportrecording"
+   * terminal commands.
+   */
+  recordings: {
+    /**
+     * If `true`, every game played in the room will be recorded.
+     */
+    enabled: false,
+    /**
+     * Maximum amount of recordings kept per room. Once this amount is reached, the oldest recordings are deleted to
+     * make room for new ones. Set to 0 to keep every recording.
+     */
+    maxRecordings: 100,
+  },
+
+  /**
+   * Settings for shutting the server down, which happens when the "close" or "restart" terminal commands are used or
+   * when the server receives a SIGINT or SIGTERM signal (such as when pressing Ctrl+C, or when a hosting service
+   * redeploys the server). Every room is returned to the lobby and closed to new players, everyone is told about the
+   * shutdown, and once everyone has left (or the drain timeout runs out) everyone is disconnected and the chat logs,
+   * player profiles, ban lists and room states are saved. Sending a second signal skips the wait.
+   */
+  shutdown: {
+    /**
+     * Maximum time (in seconds) to wait for players to leave on their own before disconnecting them.
+     */
+    drainTimeout: 10,
+    /**
+     * Signals that mean the server is being restarted rather than stopped. Hosting services usually send SIGTERM when
+     * redeploying the server, while SIGINT usually comes from someone pressing Ctrl+C.
+     */
+    restartSignals: ['SIGTERM'],
+    /**
+     * Message shown to players when the server is restarting, so that they know when to expect the room back.
+     */
+    restartMessage: 'The room should be back in a minute or two.',
+  },
+
+  /**
+   * List of rooms hosted by the server. Each room has its own players, host, settings, password, ban list and chat
+   * logs. Any setting left out of a room uses the value set above.
+   *
+   * The first room in the list is the default room: it's reachable at the root of the server and keeps its files
+   * (ban list, chat logs) at the root folder of the server. Every other room is reachable at `/{id}` and keeps its
+   * files in `rooms/{id}/`.
+   *
+   * Example of a server with two rooms:
+   *
+   * ```
+   * rooms: [
+   *   { id: 'casual' },
+   *   { id: 'scrims', roomNameOnStartup: 'Scrims', roomPasswordOnStartup: 'secret', maxPlayers: 8 },
+   * ],
+   * ```
+   */
+  rooms: [{ id: 'main' }],
+
+  /**
+   * Settings for the admin API, a token-protected REST API that allows performing the same actions as the terminal
+   * through HTTP requests. This is useful when hosting the server somewhere where the terminal isn't accessible.
+   *
+   * Every request must include the token in an `Authorization: Bearer {token}` header. Available endpoints:
+   *
+   * - `GET /api/rooms`: list every room.
+   * - `GET /api/rooms/{room id}`: get a room's metadata.
+   * - `GET /api/rooms/{room id}/players`: list the players in a room.
+   * - `POST /api/rooms/{room id}/players/{username or id}/kick`: kick a player.
+   * - `POST /api/rooms/{room id}/players/{username or id}/ban` with `{ "reason": string (optional), "duration":
+   *   string (optional, such as "30m", "2h" or "7d") }`: ban a player, both by username and address.
+   * - `POST /api/rooms/{room id}/players/{username or id}/mute` with `{ "duration": string (optional), "shadow":
+   *   boolean (optional) }`: mute or shadow-mute a player.
+   * - `GET /api/rooms/{room id}/mutes`: get the list of muted players.
+   * - `DELETE /api/rooms/{room id}/mutes/{username or id}`: unmute a player.
+   * - `GET /api/rooms/{room id}/bans`: get the room's ban list.
+   * - `POST /api/rooms/{room id}/bans` with `{ "username": string (optional), "address": string (optional, can be a
+   *   CIDR range), "reason": string (optional), "duration": string (optional) }`: ban a username, an address, or both.
+   * - `DELETE /api/rooms/{room id}/bans/{ban id, username or address}`: remove a ban.
+   * - `GET /api/rooms/{room id}/roles`: get the room's role list.
+   * - `PUT /api/rooms/{room id}/roles/{username or id}` with `{ "role": "moderator", "admin" or "none" }`: give a
+   *   role to a player, or take it away.
+   * - `PUT /api/rooms/{room id}/host` with `{ "player": username or id }`: give host privileges to a player.
+   * - `DELETE /api/rooms/{room id}/host`: remove host privileges from the current host.
+   * - `PUT /api/rooms/{room id}/name` with `{ "name": string }`: change the room's name (leave empty to reset it).
+   * - `PUT /api/rooms/{room id}/password` with `{ "password": string }`: change the room's password (leave empty
+   *   to clear it).
+   * - `POST /api/rooms/{room id}/close` with `{ "minutes": number (optional) }`: schedule the room's closing.
+   * - `DELETE /api/rooms/{room id}/close`: abort a scheduled close.
+   */
+  adminApi: {
+    /**
+     * If `true`, the admin API will be available at `/api`.
+     */
+    enabled: false,
+    /**
+     * Token required to use the admin API. Use a long, random string. The admin API stays disabled while the token
+     * is empty.
+     */
+    token: null,
+  },
+
+  /**
+   * Settings for the admin dashboard, a web page that shows the live state of every room (players, game settings and
+   * chat) and allows kicking, banning, transferring host and scheduling the closing of rooms. The dashboard can be
+   * accessed through `http(s)://{server address}/admin`.
+   */
+  dashboard: {
+    /**
+     * If `true`, the admin dashboard will be available at `/admin`.
+     */
+    enabled: false,
+    /**
+     * Username required to log into the dashboard.
+     */
+    username: 'admin',
+    /**
+     * Password required to log into the dashboard. Use a strong password. The dashboard stays disabled while the
+     * password is empty.
+     */
+    password: null,
+  },
+
+  /**
+   * Settings for the metrics endpoint, which shows the activity of every room (players, join attempts and rejections,
+   * ratelimit hits, packets received, games played and chat messages) at `/metrics`, in the format used by
+   * Prometheus. The endpoint can only be accessed from the allowed addresses, or with the metrics token. It stays
+   * disabled if neither a token nor allowed addresses are set.
+   */
+  metrics: {
+    /**
+     * If `true`, the metrics will be available at `/metrics`.
+     */
+    enabled: false,
+    /**
+     * Token that gives access to the metrics when sent in an `Authorization: Bearer {token}` header. Use a long,
+     * random string.
+     */
+    token: null,
+    /**
+     * Addresses (or CIDR ranges, such as `10.0.0.0/8`) that can access the metrics without a token.
+     */
+    allowedAddresses: ['127.0.0.1'],
+  },
+
+  /**
+   * Settings for webhooks, which send room events to other services as they happen, through JSON POST requests. The
+   * events are the same ones written to the journal (joins, leaves, chat messages, kicks, bans, unbans, host
+   * transfers, games starting, rooms returning to the lobby...), plus `server_closing` when the server shuts down.
+   * Every request has the following body:
+   *
+   * ```
+   * { "id": string, "event": string, "time": number, "room": string | null, "player": string | null, "data": {...} }
+   * ```
+   *
+   * If the target has a secret, the request includes an `X-Manifold-Signature: sha256={signature}` header, where the
+   * signature is the HMAC-SHA256 of the body (in hex), using the secret as the key. Failed requests are retried with
+   * an increasing delay.
+   *
+   * Example of a target that only receives chat messages and bans:
+   *
+   * ```
+   * targets: [{ url: 'https://example.com/manifold', secret: 'a long random string', events: ['chat', 'ban'] }],
+   * ```
+   */
+  webhooks: {
+    /**
+     * Services that receive the events.
+     */
+    targets: [],
+    /**
+     * Amount of times a failed request is retried before the event is dropped.
+     */
+    maxRetries: 5,
+    /**
+     * Time (in seconds) to wait before retrying a failed request. The delay doubles after every retry.
+     */
+    retryDelay: 2,
+    /**
+     * Time (in seconds) to wait for the target to respond before considering the request failed.
+     */
+    timeout: 10,
+  },
+
+  /**
+   * Settings for the chat bridge, which relays the chat of every room to another chat (such as a Discord channel)
+   * and back. Bridge clients connect to the `/bridge` socket.io namespace with the bridge token
+   * (`io('{server url}/bridge', { auth: { token } })`), and then:
+   *
+   * - receive `chat`, `join` and `leave` events as they happen, with a `{ room, time, player, ... }` object.
+   * - send messages to a room by emitting `message` with `{ room, author, message }` (`room` can be left out to send
+   *   the message to the first room) and an optional callback, which receives `{ error }` if the message wasn't sent.
+   *
+   * Messages sent through the bridge show up in the room as status messages, under the bridge label. They go through
+   * the chat filter and the bridge ratelimit, and are logged like any other chat message.
+   */
+  chatBridge: {
+    /**
+     * If `true`, the chat bridge will be available at the `/bridge` namespace.
+     */
+    enabled: false,
+    /**
+     * Token bridge clients have to connect with. Use a long, random string. The bridge stays disabled while the token
+     * is empty.
+     */
+    token: null,
+    /**
+     * Text shown before the author of every message sent through the bridge.
+     */
+    label: '[Bridge]',
+    /**
+     * Color of the messages sent through the bridge.
+     */
+    color: '#7289da',
+    /**
+     * Ratelimit for sending messages through the bridge, shared by every author of a bridge client. Works the same way
+     * as the ratelimits in `restrictions.ratelimits`.
+     */
+    ratelimit: { amount: 10, timeframe: 10, restore: 10 },
+  },
+
+  /**
+   * Settings for plugins, which are loaded from the plugins directory when the server starts. Each plugin is a
+   * JavaScript or TypeScript file whose default export has a `name` and a `setup` function, which receives the plugin
+   * API (see `src/plugins.ts`). Through the API, plugins can hook into joins, leaves, chat messages, map changes, game
+   * starts and every packet received (changing or rejecting some of them), register terminal and chat commands, and
+   * kick players, send messages and change room settings.
+   *
+   * Example of a plugin (`plugins/greeter.ts`):
+   *
+   * ```
+   * import { ManifoldPlugin } from '../src/plugins';
+   *
+   * export default {
+   *   name: 'greeter',
+   *   setup(api) {
+   *     api.on('onJoin', (event) => api.sendMessage(event.room, `* Welcome, ${event.userName}!`, event.playerId));
+   *     api.on('beforeChat', (event) => (event.message.includes('secret') ? 'No secrets allowed.' : undefined));
+   *   },
+   * } as ManifoldPlugin;
+   * ```
+   */
+  plugins: {
+    /**
+     * If `true`, the plugins in the plugins directory will be loaded when the server starts.
+     */
+    enabled: true,
+    /**
+     * Directory the plugins are loaded from, relative to the root folder of the server.
+     */
+    directory: 'plugins',
   },
 };
 
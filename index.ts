@@ -1,6 +1,8 @@
 import moment from 'moment';
 import config from './config';
 import ManifoldServer from './src/server';
+import { ConfigError, loadConfig } from './src/configLoader';
+import { Config } from './src/types';
 
 moment.updateLocale('en', {
   relativeTime: {
@@ -20,4 +22,15 @@ moment.updateLocale('en', {
   },
 });
 
-new ManifoldServer(config);
+let loadedConfig: Config;
+
+try {
+  loadedConfig = loadConfig(config);
+} catch (error) {
+  if (!(error instanceof ConfigError)) throw error;
+
+  console.log(error.message);
+  process.exit(1);
+}
+
+new ManifoldServer(loadedConfig, config);
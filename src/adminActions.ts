@@ -0,0 +1,622 @@
+import fs from 'fs';
+import path from 'node:path';
+import moment from 'moment';
+
+import ManifoldServer from './server';
+import ManifoldRoom from './room';
+import ManifoldBanList from './banList';
+import ManifoldMapVotes from './mapVotes';
+import { ConfigError } from './configLoader';
+import { parseDuration } from './utils';
+import { BanEntry, MuteEntry, PlayerProfile, PlayerRole } from './types';
+
+/**
+ * Admin actions shared by the terminal, the admin API, the dashboard and moderation chat commands. Every action either
+ * returns a human readable message describing what happened, or throws an `AdminActionError` explaining why the action
+ * couldn't be performed.
+ */
+
+export class AdminActionError extends Error {
+  /**
+   * HTTP status code that best describes the error, used by the admin API.
+   */
+  public status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'AdminActionError';
+    this.status = status;
+  }
+}
+
+const teamNames = ['Spectating', 'Free For All', 'Red', 'Blue', 'Green', 'Yellow'];
+const teamAliases = ['spec', 'ffa', 'red', 'blue', 'green', 'yellow'];
+const roleNames: PlayerRole[] = ['moderator', 'admin'];
+const leaderboardStats: Record<string, keyof PlayerProfile> = {
+  playtime: 'playtime',
+  games: 'gamesPlayed',
+  messages: 'messagesSent',
+  joins: 'joins',
+  xp: 'xp',
+};
+
+/**
+ * Get the id of a player in the room through their username or id, throwing if there's no such player.
+ */
+export function resolvePlayer(room: ManifoldRoom, target: string | number | undefined): number {
+  const id = room.getPlayerId(String(target ?? ''));
+
+  if (id == -1) throw new AdminActionError(`${target} is not a valid player name or id.`, 404);
+
+  return id;
+}
+
+export function getPlayers(room: ManifoldRoom) {
+  const playerList = [];
+
+  for (let i = 0; i < room.playerInfo.length; i++) {
+    const player = room.playerInfo[i];
+
+    if (!player) continue;
+
+    playerList.push({
+      id: i,
+      username: player.userName,
+      guest: player.guest,
+      level: player.level,
+      team: player.team,
+      teamName: teamNames[player.team],
+      ready: player.ready,
+      tabbed: player.tabbed,
+      host: room.hostId == i,
+    });
+  }
+
+  return playerList;
+}
+
+export function kickPlayer(room: ManifoldRoom, target: string | number | undefined, issuedBy: string): string {
+  const id = resolvePlayer(room, target);
+  const userName = room.playerInfo[id].userName;
+
+  room.kickPlayer(id, issuedBy);
+
+  return `Kicked ${userName}.`;
+}
+
+export interface BanOptions {
+  /**
+   * Reason for the ban.
+   */
+  reason?: string;
+  /**
+   * How long the ban lasts (such as "30m", "2h" or "7d", see `parseDuration`). The ban is permanent if not set.
+   */
+  duration?: string;
+  /**
+   * Who issued the ban.
+   */
+  issuedBy: string;
+}
+
+/**
+ * Get the expiry time of a ban or mute from its duration, throwing if the duration is invalid.
+ */
+function getExpiry(duration: string | undefined): number | null {
+  if (duration === undefined || duration === '') return null;
+
+  const milliseconds = parseDuration(String(duration));
+
+  if (milliseconds === undefined) {
+    throw new AdminActionError(`${duration} is not a valid duration. Use durations such as 30m, 2h, 7d or 1w.`);
+  }
+
+  return Date.now() + milliseconds;
+}
+
+/**
+ * Get a short description of a ban, such as "#4 (username, 1.2.3.4)".
+ */
+export function describeBan(ban: BanEntry): string {
+  return `#${ban.id} (${[ban.username, ban.address].filter((i) => i !== null).join(', ')})`;
+}
+
+function getBanCreatedMessage(room: ManifoldRoom, ban: BanEntry): string {
+  const expiry =
+    ban.expiresAt === null ? 'permanently' : `until ${moment(ban.expiresAt).format(room.config.timeStampFormat)}`;
+
+  return `Banned ${describeBan(ban)} ${expiry}.`;
+}
+
+export function banPlayer(room: ManifoldRoom, target: string | number | undefined, options: BanOptions): string {
+  const id = resolvePlayer(room, target);
+  const expiresAt = getExpiry(options.duration);
+
+  const ban = room.banPlayer(id, options.reason ?? '', options.issuedBy, expiresAt);
+
+  return getBanCreatedMessage(room, ban);
+}
+
+/**
+ * Ban a username, an address (or CIDR range), or both, regardless of whether someone using them is in the room.
+ */
+export function addBan(
+  room: ManifoldRoom,
+  username: string | undefined,
+  address: string | undefined,
+  options: BanOptions,
+): string {
+  if (!username && !address) throw new AdminActionError('A username or an address must be specified.');
+
+  if (username !== undefined && typeof username !== 'string') {
+    throw new AdminActionError('The username must be a string.');
+  }
+
+  if (address && (typeof address !== 'string' || !ManifoldBanList.isValidAddress(address))) {
+    throw new AdminActionError(`${address} is not a valid IPv4/IPv6 address or CIDR range.`);
+  }
+
+  const ban = room.addBan({
+    username: username || null,
+    address: address || null,
+    reason: options.reason ?? '',
+    issuedBy: options.issuedBy,
+    expiresAt: getExpiry(options.duration),
+  });
+
+  return getBanCreatedMessage(room, ban);
+}
+
+/**
+ * Get every ban that hasn't expired yet.
+ */
+export function getBans(room: ManifoldRoom): BanEntry[] {
+  room.liftExpiredBans();
+
+  return room.banList.bans;
+}
+
+/**
+ * Remove bans through a ban id, username or address.
+ */
+export function unbanPlayer(room: ManifoldRoom, query: string | undefined): string {
+  room.liftExpiredBans();
+
+  const removedBans = room.banList.remove(String(query ?? ''));
+
+  if (removedBans.length == 0) throw new AdminActionError(`${query} is not in the ban list.`, 404);
+
+  room.logChatMessage(`${removedBans.map((ban) => ban.username ?? ban.address).join(', ')} was unbanned`);
+  for (const ban of removedBans) room.logEvent('unban', ban.username, { banId: ban.id, address: ban.address });
+
+  return `Removed ban(s) ${removedBans.map((ban) => describeBan(ban)).join(', ')}.`;
+}
+
+export interface MuteOptions {
+  /**
+   * How long the mute lasts (such as "30m", "2h" or "7d", see `parseDuration`). The mute doesn't expire if not set.
+   */
+  duration?: string;
+  /**
+   * If `true`, the player isn't told they're muted, and their messages are still shown to them (but to no one else).
+   */
+  shadow?: boolean;
+  /**
+   * Who issued the mute.
+   */
+  issuedBy: string;
+}
+
+export function mutePlayer(room: ManifoldRoom, target: string | number | undefined, options: MuteOptions): string {
+  const id = resolvePlayer(room, target);
+  const expiresAt = getExpiry(options.duration);
+
+  room.mutePlayer(id, options.shadow ?? false, options.issuedBy, expiresAt);
+
+  const expiry = expiresAt === null ? '' : ` until ${moment(expiresAt).format(room.config.timeStampFormat)}`;
+  return `${options.shadow ? 'Shadow-muted' : 'Muted'} ${room.playerInfo[id].userName}${expiry}.`;
+}
+
+/**
+ * Unmute a player in the room (through their username or id), or a username that isn't in the room.
+ */
+export function unmutePlayer(room: ManifoldRoom, target: string | number | undefined): string {
+  const id = room.getPlayerId(String(target ?? ''));
+  const username = id == -1 ? String(target ?? '') : room.playerInfo[id].userName;
+
+  const removedMutes = room.unmutePlayer(username, id == -1 ? undefined : room.playerSockets[id].handshake.address);
+
+  if (removedMutes.length == 0) throw new AdminActionError(`${username} is not muted.`, 404);
+
+  room.logChatMessage(`${username} was unmuted`);
+  room.logEvent('unmute', username);
+  if (id != -1 && removedMutes.some((mute) => !mute.shadow)) {
+    room.sendPlayerStatusMessage(id, '* You are no longer muted.');
+  }
+
+  return `Unmuted ${username}.`;
+}
+
+export function getMutes(room: ManifoldRoom): MuteEntry[] {
+  room.removeExpiredMutes();
+
+  return room.mutes;
+}
+
+/**
+ * Get the profiles of a player in the room (through their username or id), or of a username that isn't in the room.
+ * As guests and accounts can share usernames, a username may have up to two profiles.
+ */
+export function getProfiles(room: ManifoldRoom, target: string | number | undefined): PlayerProfile[] {
+  // make the playtime of players in the room include their current session
+  room.flushPlaytime();
+
+  const id = room.getPlayerId(String(target ?? ''));
+  const profiles =
+    id == -1
+      ? room.profiles.profiles.filter((profile) => profile.username === String(target ?? ''))
+      : [room.profiles.getOrCreate(room.playerInfo[id].userName, room.playerInfo[id].guest)];
+
+  if (profiles.length == 0) throw new AdminActionError(`There is no profile for ${target}.`, 404);
+
+  return profiles;
+}
+
+/**
+ * Get the accounts with the highest value of a stat (playtime, games, messages, joins or xp). Guests are left out, as
+ * anyone can use a guest's username.
+ */
+export function getLeaderboard(room: ManifoldRoom, stat: string = 'playtime', amount: number = 10): PlayerProfile[] {
+  const key = leaderboardStats[stat];
+
+  if (!key) {
+    throw new AdminActionError(
+      `${stat} is not a valid stat. Valid stats are: ${Object.keys(leaderboardStats).join(', ')}.`,
+    );
+  }
+
+  if (!(amount > 0)) throw new AdminActionError('The amount of players must be a positive number.');
+
+  room.flushPlaytime();
+
+  return room.profiles.profiles
+    .filter((profile) => !profile.guest)
+    .sort((a, b) => (b[key] as number) - (a[key] as number))
+    .slice(0, amount);
+}
+
+/**
+ * Get the maps voted in the room along with their votes, sorted from most liked to least liked (by likes minus
+ * dislikes).
+ */
+export function getMapVotes(room: ManifoldRoom) {
+  return room.mapVotes.maps
+    .map((entry) => {
+      const tally = ManifoldMapVotes.tally(entry);
+
+      return {
+        id: entry.id,
+        name: entry.name,
+        author: entry.author,
+        likes: tally.vu,
+        dislikes: tally.vd,
+        score: tally.vu - tally.vd,
+      };
+    })
+    .sort((a, b) => b.score - a.score || b.likes - a.likes);
+}
+
+/**
+ * Get the name of a saved recording through its name or its number in the recording list (starting from 1), throwing
+ * if there's no such recording.
+ */
+function resolveRecording(room: ManifoldRoom, query: string | undefined): string {
+  const names = room.recorder.getRecordingNames();
+  const name = /^[0-9]+$/.test(String(query)) ? names[Number(query) - 1] : String(query ?? '');
+
+  if (!names.includes(name)) throw new AdminActionError(`${query} is not a valid recording name or number.`, 404);
+
+  return name;
+}
+
+/**
+ * Get a summary of every saved recording, from oldest to newest.
+ */
+export function getRecordings(room: ManifoldRoom) {
+  return room.recorder.getRecordingNames().map((name, i) => {
+    const recording = room.recorder.load(name)!;
+
+    return {
+      number: i + 1,
+      name,
+      startedAt: recording.startedAt,
+      length: (recording.endedAt ?? recording.startedAt) - recording.startedAt,
+      players: recording.players.map((player) => player.userName),
+      size: fs.statSync(room.recorder.getRecordingPath(name)).size,
+    };
+  });
+}
+
+export function deleteRecording(room: ManifoldRoom, query: string | undefined): string {
+  const name = resolveRecording(room, query);
+
+  room.recorder.delete(name);
+
+  return `Deleted recording ${name}.`;
+}
+
+/**
+ * Export a recording to a file outside of the room's folder, as indented JSON so that it's easy to read. If no
+ * destination is given, the recording is exported to the "exports" folder.
+ */
+export function exportRecording(room: ManifoldRoom, query: string | undefined, destination?: string): string {
+  const name = resolveRecording(room, query);
+  const filePath = destination || `./exports/${room.id}-${name}.json`;
+
+  try {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(room.recorder.load(name), null, 2), { encoding: 'utf8' });
+  } catch (error) {
+    throw new AdminActionError(`Couldn't export the recording to ${filePath}: ${(error as Error).message}`, 500);
+  }
+
+  return `Exported recording ${name} to ${filePath}.`;
+}
+
+/**
+ * Get the index of a playlist entry through its number in the playlist (starting from 1), throwing if there's no such
+ * entry.
+ */
+function resolvePlaylistEntry(room: ManifoldRoom, query: string | undefined): number {
+  const index = /^[0-9]+$/.test(String(query)) ? Number(query) - 1 : -1;
+
+  if (!room.playlist.entries[index]) throw new AdminActionError(`${query} is not a valid playlist number.`, 404);
+
+  return index;
+}
+
+export function getPlaylist(room: ManifoldRoom) {
+  return room.playlist.entries.map((entry, i) => ({
+    number: i + 1,
+    name: entry.name,
+    current: i == room.playlist.position,
+  }));
+}
+
+/**
+ * Add the map that is currently selected in the room to the end of the playlist.
+ */
+export function addCurrentMapToPlaylist(room: ManifoldRoom, name: string | undefined): string {
+  if (!name) throw new AdminActionError('You must specify a name for the map.');
+
+  room.playlist.add({ name, map: room.gameSettings.map });
+
+  return `Added ${name} to the playlist as map #${room.playlist.entries.length}.`;
+}
+
+export function removeFromPlaylist(room: ManifoldRoom, query: string | undefined): string {
+  const entry = room.playlist.remove(resolvePlaylistEntry(room, query));
+
+  return `Removed ${entry.name} from the playlist.`;
+}
+
+export function movePlaylistEntry(
+  room: ManifoldRoom,
+  query: string | undefined,
+  newPosition: string | undefined,
+): string {
+  const from = resolvePlaylistEntry(room, query);
+  const to = resolvePlaylistEntry(room, newPosition);
+  const name = room.playlist.entries[from].name;
+
+  room.playlist.move(from, to);
+
+  return `Moved ${name} to position #${to + 1} of the playlist.`;
+}
+
+/**
+ * Change the room's map to an entry of the playlist right away. The rotation continues from that entry.
+ */
+export function jumpToPlaylistEntry(room: ManifoldRoom, query: string | undefined): string {
+  const index = resolvePlaylistEntry(room, query);
+
+  room.playlist.play(index);
+
+  return `Changed the map to ${room.playlist.entries[index].name}.`;
+}
+
+/**
+ * Move a player to another team. The team can be specified through its number (0 to 5) or its name (spec, ffa, red,
+ * blue, green or yellow).
+ */
+export function movePlayer(room: ManifoldRoom, target: string | number | undefined, team: string | undefined): string {
+  const id = resolvePlayer(room, target);
+  const teamId = /^[0-5]$/.test(String(team)) ? Number(team) : teamAliases.indexOf(String(team).toLowerCase());
+
+  if (teamId == -1) {
+    throw new AdminActionError(`${team} is not a valid team. Valid teams are: ${teamAliases.join(', ')}.`);
+  }
+
+  room.changeTeam(id, teamId);
+
+  return `Moved ${room.playerInfo[id].userName} to ${teamNames[teamId]}.`;
+}
+
+/**
+ * Give host privileges to a player, or remove them from the current host if no target is given.
+ */
+export function transferHost(room: ManifoldRoom, target?: string | number): string {
+  const hasTarget = target !== undefined && target !== '';
+  const id = hasTarget ? resolvePlayer(room, target) : -1;
+
+  if (id == -1 && room.hostId == -1) {
+    throw new AdminActionError('There is no game host in the room to remove privileges from!', 409);
+  }
+
+  const oldHostId = room.hostId;
+  room.transferHost(id);
+
+  if (id == -1) {
+    return `Removed host privileges from ${room.playerInfo[oldHostId].userName}.`;
+  } else {
+    return `${room.playerInfo[id].userName} (id ${id}) is now the game host.`;
+  }
+}
+
+/**
+ * Change the room's name, or reset it to the name used on startup if no name is given.
+ */
+export function setRoomName(room: ManifoldRoom, name?: string): string {
+  if (name !== undefined && typeof name !== 'string') throw new AdminActionError('The room name must be a string.');
+
+  room.setRoomName(name ? name : room.config.roomNameOnStartup);
+
+  return `The room's name is now "${room.roomName}".`;
+}
+
+/**
+ * Change the room's password, or clear it if no password is given.
+ */
+export function setRoomPassword(room: ManifoldRoom, password?: string | null): string {
+  if (password && typeof password !== 'string') throw new AdminActionError('The room password must be a string.');
+
+  if (password) {
+    room.setRoomPassword(password);
+    return `The room's password is now "${room.password}".`;
+  } else {
+    room.setRoomPassword(null);
+    return `The room's password has been cleared.`;
+  }
+}
+
+/**
+ * Reset the room's name, password and game settings to the ones used on startup, and delete the saved room state.
+ */
+export function resetRoomState(room: ManifoldRoom): string {
+  if (room.gameInProgress) {
+    throw new AdminActionError('The room can only be reset while it is in the lobby. Wait for the game to end.', 409);
+  }
+
+  room.resetState();
+
+  return (
+    "The room's name, password and game settings have been reset to the ones used on startup, and the saved room " +
+    'state has been deleted.'
+  );
+}
+
+export function getRoles(room: ManifoldRoom) {
+  return room.roles;
+}
+
+/**
+ * Give a role to a player, or take it away if the role is "none". The target can be a player in the room (through
+ * their username or id) or the username of someone who isn't in the room.
+ */
+export function setRole(room: ManifoldRoom, target: string | number | undefined, role: string | undefined): string {
+  if (role !== 'none' && !roleNames.includes(role as PlayerRole)) {
+    throw new AdminActionError(`${role} is not a valid role. Valid roles are: ${roleNames.join(', ')}, none.`);
+  }
+
+  const id = room.getPlayerId(String(target ?? ''));
+  const username = id == -1 ? String(target ?? '') : room.playerInfo[id].userName;
+
+  if (!username) throw new AdminActionError('A username must be specified.');
+
+  if (id != -1 && room.playerInfo[id].guest) throw new AdminActionError('Guests cannot be given roles.');
+
+  if (role === 'none') {
+    if (!room.roles.some((i) => i.username === username)) {
+      throw new AdminActionError(`${username} doesn't have a role.`, 404);
+    }
+
+    room.setRole(username, undefined);
+
+    if (id != -1) room.sendPlayerStatusMessage(id, '* You no longer have a role in this room.');
+
+    return `${username} no longer has a role.`;
+  }
+
+  room.setRole(username, role as PlayerRole, id != -1 ? room.playerSockets[id].handshake.address : undefined);
+
+  if (id != -1) {
+    room.sendPlayerStatusMessage(id, `* You are now a ${role} in this room.`);
+  } else if (
+    room.config.roles.bindToAddress &&
+    room.roles.find((i) => i.username === username)?.addresses.length == 0
+  ) {
+    return (
+      `${username} is now a ${role}. As they aren't in the room, their address couldn't be recorded, so they won't ` +
+      `get their role until it's given to them again while they're in the room.`
+    );
+  }
+
+  return `${username} is now a ${role}.`;
+}
+
+/**
+ * Load the config again and apply its changes without restarting the server, describing what was applied and what
+ * was skipped.
+ */
+export function reloadConfig(server: ManifoldServer): string {
+  let report;
+
+  try {
+    report = server.reloadConfig();
+  } catch (error) {
+    if (!(error instanceof ConfigError)) throw error;
+    throw new AdminActionError(`The config was not reloaded. ${error.message}`);
+  }
+
+  if (report.applied.length == 0 && report.skipped.length == 0) return 'The config was reloaded. Nothing changed.';
+
+  const lines = ['The config was reloaded.'];
+
+  if (report.applied.length > 0) lines.push(`Applied: ${report.applied.join(', ')}.`);
+  if (report.skipped.length > 0) {
+    lines.push(`Skipped, as they can only change when the server restarts: ${report.skipped.join(', ')}.`);
+  }
+
+  return lines.join('\n');
+}
+
+export function scheduleClose(room: ManifoldRoom, timeUntilForceStop?: number): string {
+  if (room.playerAmount == 0) {
+    throw new AdminActionError(
+      'Scheduled closing is meant to be used when there are people connected to the room! Did you mean to stop the ' +
+        'server by using the command "close"?',
+      409,
+    );
+  }
+
+  if (room.closed) throw new AdminActionError('A scheduled close is already taking place!', 409);
+
+  if (timeUntilForceStop !== undefined && !(timeUntilForceStop > 0)) {
+    throw new AdminActionError('The time until force-stop must be a positive number of minutes.');
+  }
+
+  const forceStopTime = room.scheduledClose(timeUntilForceStop);
+
+  if (forceStopTime) {
+    return (
+      `The room has been closed. Player entry is now prohibited, and the room will shut down ${forceStopTime}, or as ` +
+      'soon as everyone leaves the room.'
+    );
+  } else {
+    return (
+      'The room has been closed. Player entry is now prohibited, and as soon as everyone leaves the room, the room ' +
+      'will shut down.'
+    );
+  }
+}
+
+export function abortScheduledClose(room: ManifoldRoom): string {
+  if (!room.closed) throw new AdminActionError("The room isn't currently scheduled to be closed.", 409);
+
+  room.abortScheduledClose();
+
+  return (
+    'The room has been re-opened! Player entry is no longer prohibited and the room will no longer automatically ' +
+    'shut down.'
+  );
+}
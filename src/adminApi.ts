@@ -0,0 +1,127 @@
+import express from 'express';
+
+import ManifoldServer from './server';
+import ManifoldRoom from './room';
+import * as actions from './adminActions';
+import { safeCompare } from './utils';
+
+/**
+ * Token-protected REST API that exposes the same admin actions as the terminal. Every endpoint requires an
+ * `Authorization: Bearer {token}` header, and every room-specific endpoint lives under `/api/rooms/{room id}`.
+ */
+export default class ManifoldAdminApi {
+  public server: ManifoldServer;
+  public router: express.Router;
+
+  constructor(server: ManifoldServer) {
+    this.server = server;
+    this.router = express.Router();
+
+    this.router.use(express.json());
+    this.router.use((req, res, next) => this.authenticate(req, res, next));
+
+    this.router.get('/rooms', (_req, res) => {
+      res.json(this.server.rooms.map((room) => room.getMetadata()));
+    });
+
+    this.router.use('/rooms/:roomId', (req, res, next) => {
+      const room = this.server.getRoom(req.params.roomId);
+
+      if (!room) {
+        res.status(404).json({ error: `${req.params.roomId} is not a valid room id.` });
+        return;
+      }
+
+      res.locals.room = room;
+      next();
+    });
+
+    this.route('get', '/rooms/:roomId', (room) => room.getMetadata());
+    this.route('get', '/rooms/:roomId/players', (room) => actions.getPlayers(room));
+    this.route('post', '/rooms/:roomId/players/:player/kick', (room, req) =>
+      actions.kickPlayer(room, req.params.player, 'admin API'),
+    );
+    this.route('post', '/rooms/:roomId/players/:player/ban', (room, req) =>
+      actions.banPlayer(room, req.params.player, {
+        reason: req.body?.reason,
+        duration: req.body?.duration,
+        issuedBy: 'admin API',
+      }),
+    );
+    this.route('post', '/rooms/:roomId/players/:player/mute', (room, req) =>
+      actions.mutePlayer(room, req.params.player, {
+        duration: req.body?.duration,
+        shadow: req.body?.shadow === true,
+        issuedBy: 'admin API',
+      }),
+    );
+    this.route('get', '/rooms/:roomId/mutes', (room) => actions.getMutes(room));
+    this.route('delete', '/rooms/:roomId/mutes/:player', (room, req) => actions.unmutePlayer(room, req.params.player));
+    this.route('get', '/rooms/:roomId/bans', (room) => actions.getBans(room));
+    this.route('post', '/rooms/:roomId/bans', (room, req) =>
+      actions.addBan(room, req.body?.username, req.body?.address, {
+        reason: req.body?.reason,
+        duration: req.body?.duration,
+        issuedBy: 'admin API',
+      }),
+    );
+    this.route('delete', '/rooms/:roomId/bans/:query', (room, req) => actions.unbanPlayer(room, req.params.query));
+    this.route('get', '/rooms/:roomId/roles', (room) => actions.getRoles(room));
+    this.route('put', '/rooms/:roomId/roles/:player', (room, req) =>
+      actions.setRole(room, req.params.player, req.body?.role),
+    );
+    this.route('put', '/rooms/:roomId/host', (room, req) => actions.transferHost(room, req.body?.player));
+    this.route('delete', '/rooms/:roomId/host', (room) => actions.transferHost(room));
+    this.route('put', '/rooms/:roomId/name', (room, req) => actions.setRoomName(room, req.body?.name));
+    this.route('put', '/rooms/:roomId/password', (room, req) => actions.setRoomPassword(room, req.body?.password));
+    this.route('post', '/rooms/:roomId/close', (room, req) => actions.scheduleClose(room, req.body?.minutes));
+    this.route('delete', '/rooms/:roomId/close', (room) => actions.abortScheduledClose(room));
+
+    this.router.use((_req, res) => {
+      res.status(404).json({ error: 'Endpoint not found.' });
+    });
+
+    // malformed json bodies end up here, along with any error thrown by a handler
+    this.router.use((error: unknown, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+      if (error instanceof actions.AdminActionError) {
+        res.status(error.status).json({ error: error.message });
+      } else if (error instanceof SyntaxError) {
+        res.status(400).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Internal server error.' });
+      }
+    });
+  }
+
+  authenticate(req: express.Request, res: express.Response, next: express.NextFunction) {
+    const token = this.server.config.adminApi.token;
+    const providedToken = req.headers.authorization?.replace(/^Bearer /, '') ?? '';
+
+    if (!token || !safeCompare(providedToken, token)) {
+      res.status(401).json({ error: 'Invalid or missing admin token.' });
+      return;
+    }
+
+    next();
+  }
+
+  /**
+   * Register a room-specific endpoint. Strings returned by the handler are sent as `{ message }`, anything else is
+   * sent as-is. Admin action errors are sent as `{ error }` along with the action's status code.
+   */
+  route(
+    method: 'get' | 'post' | 'put' | 'delete',
+    path: string,
+    handler: (room: ManifoldRoom, req: express.Request) => unknown,
+  ) {
+    this.router[method](path, (req, res) => {
+      try {
+        const result = handler(res.locals.room, req);
+        res.json(typeof result === 'string' ? { message: result } : result);
+      } catch (error) {
+        if (!(error instanceof actions.AdminActionError)) throw error;
+        res.status(error.status).json({ error: error.message });
+      }
+    });
+  }
+}
@@ -0,0 +1,158 @@
+import fs from 'fs';
+import net from 'node:net';
+
+import { BanEntry } from './types';
+
+/**
+ * Persistent list of bans. Each ban can target a username, an address (either a single IP or a CIDR range such as
+ * `192.168.0.0/16`), or both, in which case a player matching either of them is considered banned.
+ */
+export default class ManifoldBanList {
+  public filePath: string;
+
+  public nextId: number = 1;
+  public bans: BanEntry[] = [];
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+
+    if (!fs.existsSync(this.filePath)) return;
+
+    const data = JSON.parse(fs.readFileSync(this.filePath, { encoding: 'utf8' }));
+
+    // ban lists made before ban entries existed are two parallel arrays of addresses and usernames. these get
+    // converted into entries, and the old file is kept as a backup
+    if (Array.isArray(data?.addresses) && Array.isArray(data?.usernames)) {
+      fs.copyFileSync(this.filePath, this.filePath.replace(/\.json$/, '.old.json'));
+
+      const entryAmount = Math.max(data.addresses.length, data.usernames.length);
+
+      for (let i = 0; i < entryAmount; i++) {
+        this.add({
+          username: data.usernames[i] ?? null,
+          address: data.addresses[i] ?? null,
+          reason: '',
+          issuedBy: 'unknown',
+          expiresAt: null,
+        });
+      }
+
+      console.log(`Migrated ${entryAmount} ban(s) from ${this.filePath} to the new ban list format.`);
+      return;
+    }
+
+    // starting with an empty ban list would unban everyone, so a ban list that can't be read stops the server instead
+    if (!Number.isInteger(data?.nextId) || !Array.isArray(data?.bans)) {
+      console.log(`The ban list at ${this.filePath} is not in a known format. Fix or remove it. Cannot start server.`);
+      process.exit(1);
+    }
+
+    this.nextId = data.nextId;
+    this.bans = data.bans;
+  }
+
+  save() {
+    fs.writeFileSync(this.filePath, JSON.stringify({ nextId: this.nextId, bans: this.bans }), {
+      encoding: 'utf8',
+    });
+  }
+
+  add(ban: Omit<BanEntry, 'id' | 'issuedAt'>): BanEntry {
+    const entry: BanEntry = { id: this.nextId++, issuedAt: Date.now(), ...ban };
+
+    this.bans.push(entry);
+    this.save();
+
+    return entry;
+  }
+
+  /**
+   * Remove every ban matching the query, which can be a ban id (optionally preceded by "#"), a username or an
+   * address. Ban ids take precedence over usernames. Returns the bans that were removed.
+   */
+  remove(query: string): BanEntry[] {
+    const id = /^#?[0-9]+$/.test(query) ? parseInt(query.replace('#', '')) : -1;
+
+    let removedBans = this.bans.filter((ban) => ban.id === id);
+    if (removedBans.length == 0 && !query.startsWith('#')) {
+      removedBans = this.bans.filter((ban) => ban.username === query || ban.address === query);
+    }
+
+    if (removedBans.length == 0) return [];
+
+    this.bans = this.bans.filter((ban) => !removedBans.includes(ban));
+    this.save();
+
+    return removedBans;
+  }
+
+  /**
+   * Remove every ban that has expired. Returns the bans that were removed.
+   */
+  removeExpired(): BanEntry[] {
+    const now = Date.now();
+    const expiredBans = this.bans.filter((ban) => ban.expiresAt !== null && ban.expiresAt <= now);
+
+    if (expiredBans.length == 0) return [];
+
+    this.bans = this.bans.filter((ban) => !expiredBans.includes(ban));
+    this.save();
+
+    return expiredBans;
+  }
+
+  /**
+   * Find a ban that applies to a player with the specified username and address, ignoring expired bans.
+   */
+  find(username: string | null, address: string | null): BanEntry | undefined {
+    return this.bans.find((ban) => ManifoldBanList.banApplies(ban, username, address));
+  }
+
+  /**
+   * Check whether a ban applies to a player with the specified username and address. Expired bans never apply.
+   */
+  static banApplies(ban: BanEntry, username: string | null, address: string | null): boolean {
+    if (ban.expiresAt !== null && ban.expiresAt <= Date.now()) return false;
+
+    if (username !== null && ban.username === username) return true;
+    if (address !== null && ban.address !== null) return ManifoldBanList.addressMatches(ban.address, address);
+
+    return false;
+  }
+
+  /**
+   * Check whether a string is a valid IPv4 or IPv6 address, or a valid CIDR range.
+   */
+  static isValidAddress(address: string): boolean {
+    const [ip, prefix, ...rest] = address.split('/');
+    const ipVersion = net.isIP(ip);
+
+    if (ipVersion == 0 || rest.length > 0) return false;
+    if (prefix === undefined) return true;
+
+    const prefixLength = Number(prefix);
+    return /^[0-9]+$/.test(prefix) && prefixLength <= (ipVersion == 4 ? 32 : 128);
+  }
+
+  /**
+   * Check whether an address matches a banned address or CIDR range. IPv4-mapped IPv6 addresses (such as
+   * `::ffff:127.0.0.1`, which is how socket.io reports most IPv4 addresses) match their IPv4 counterparts.
+   */
+  static addressMatches(bannedAddress: string, address: string): boolean {
+    const addressVersion = net.isIP(address);
+    if (addressVersion == 0 || !ManifoldBanList.isValidAddress(bannedAddress)) return false;
+
+    const [bannedIp, prefix] = bannedAddress.split('/');
+    const bannedIpType = net.isIP(bannedIp) == 4 ? 'ipv4' : 'ipv6';
+
+    const blockList = new net.BlockList();
+
+    if (prefix === undefined) {
+      blockList.addAddress(bannedIp, bannedIpType);
+    } else {
+      blockList.addSubnet(bannedIp, parseInt(prefix), bannedIpType);
+    }
+
+    return blockList.check(address, addressVersion == 4 ? 'ipv4' : 'ipv6');
+  }
+}
@@ -0,0 +1,157 @@
+import socketIO from 'socket.io';
+
+import ManifoldServer from './server';
+import ManifoldRoom from './room';
+import ManifoldTerminal from './terminal';
+import * as OUT from './outPacketIds';
+import { safeCompare } from './utils';
+import { JournalEventType } from './types';
+
+/**
+ * Events relayed to bridge clients.
+ */
+const relayedEvents: JournalEventType[] = ['chat', 'join', 'leave'];
+
+/**
+ * Chat bridge served at the `/bridge` socket.io namespace, which only accepts connections made with the bridge token
+ * set in the config. Bridge clients receive the chat, joins and leaves of every room, and can send messages to rooms,
+ * which show up under the bridge label.
+ */
+export default class ManifoldChatBridge {
+  public server: ManifoldServer;
+  public namespace: socketIO.Namespace;
+
+  /**
+   * Amount of messages sent by each bridge client (by socket id) within the current ratelimit timeframe.
+   */
+  public sentMessages: Record<string, number> = {};
+
+  constructor(server: ManifoldServer) {
+    this.server = server;
+
+    this.namespace = this.server.io.of('/bridge');
+    this.namespace.use((socket, next) => this.authenticate(socket, next));
+    this.namespace.on('connection', (socket) => this.handleConnection(socket));
+  }
+
+  get config() {
+    return this.server.config.chatBridge;
+  }
+
+  authenticate(socket: socketIO.Socket, next: (err?: Error) => void) {
+    if (!this.config.token || !safeCompare(String(socket.handshake.auth.token), this.config.token)) {
+      next(new Error('Invalid or missing bridge token.'));
+      return;
+    }
+
+    next();
+  }
+
+  handleConnection(socket: socketIO.Socket) {
+    ManifoldTerminal.consoleLog(`A chat bridge client connected from ${socket.handshake.address}.`);
+
+    socket.on('message', (data, callback) => {
+      const error = this.receiveMessage(socket, data);
+      if (typeof callback === 'function') callback(error ? { error } : {});
+    });
+
+    socket.on('disconnect', () => {
+      delete this.sentMessages[socket.id];
+      ManifoldTerminal.consoleLog(`A chat bridge client from ${socket.handshake.address} disconnected.`);
+    });
+  }
+
+  /**
+   * Pass an event of a room on to every bridge client, if it's one they receive. Messages that the room didn't get to
+   * see (such as the messages of muted players) are left out.
+   */
+  relay(type: JournalEventType, room: ManifoldRoom, player: string | null, details: Record<string, unknown>) {
+    if (!relayedEvents.includes(type) || details.suppressed || details.bridge) return;
+
+    if (type == 'chat') {
+      this.namespace.emit(type, {
+        room: room.id,
+        time: Date.now(),
+        player,
+        message: details.censoredMessage ?? details.message,
+      });
+    } else {
+      this.namespace.emit(type, { room: room.id, time: Date.now(), player });
+    }
+  }
+
+  /**
+   * Send a message from a bridge client to a room. Returns the reason the message wasn't sent, if it wasn't.
+   */
+  receiveMessage(socket: socketIO.Socket, data: unknown): string | undefined {
+    if (typeof data !== 'object' || data === null) return 'Invalid message.';
+    if (!('author' in data) || typeof data.author !== 'string') return 'Invalid message.';
+    if (!('message' in data) || typeof data.message !== 'string') return 'Invalid message.';
+
+    const room = 'room' in data ? this.server.getRoom(String(data.room)) : this.server.rooms[0];
+    if (!room) return 'Room not found.';
+
+    if (this.isRatelimited(socket)) {
+      this.server.metrics?.record('manifold_ratelimit_hits_total', room, { action: 'bridge' });
+      return 'You are sending messages too quickly.';
+    }
+
+    const author = data.author.slice(0, room.config.restrictions.usernames.maxLength);
+    const message = data.message.slice(0, room.config.restrictions.maxChatMessageLength);
+    if (!author.trim() || !message.trim()) return 'The author and the message cannot be empty.';
+
+    const label = `${this.config.label} ${author}`;
+
+    // the author goes through the same rules as the message, except for the anti-spam heuristics
+    const authorResult = room.chatFilter.applyRules(author);
+    const filterResult = room.chatFilter.filterChatMessage(`bridge:${author}`, message);
+    const blockedResult = [authorResult, filterResult].find((i) => i.action && i.action != 'censor');
+
+    if (blockedResult) {
+      room.logChatMessage(`[filtered: ${blockedResult.reason}] ${label}: ${message}`);
+      room.logEvent('chat', author, { message, bridge: true, suppressed: 'filtered', reason: blockedResult.reason });
+      return `Message blocked by the chat filter (${blockedResult.reason}).`;
+    }
+
+    const censoredResult = [authorResult, filterResult].find((i) => i.action);
+    const text = `${this.config.label} ${authorResult.text}: ${filterResult.text}`;
+
+    room.namespace.to('main').emit(OUT.MANIFOLD_CHAT_STATUS, text, this.config.color);
+
+    // other bridge clients get the message too, as it's part of the room's chat
+    socket.broadcast.emit('chat', { room: room.id, time: Date.now(), player: label, message: filterResult.text });
+
+    room.logChatMessage((censoredResult ? `[censored: ${censoredResult.reason}] ` : '') + `${label}: ${message}`);
+    room.logEvent(
+      'chat',
+      author,
+      censoredResult ? { message, censoredMessage: filterResult.text, bridge: true } : { message, bridge: true },
+    );
+  }
+
+  /**
+   * Count a message sent by a bridge client, and check whether the client has gone over the bridge ratelimit.
+   */
+  isRatelimited(socket: socketIO.Socket): boolean {
+    const ratelimit = this.config.ratelimit;
+
+    this.sentMessages[socket.id] ??= 0;
+
+    // the count is reset once the timeframe passes, unless the ratelimit was reached within it
+    if (this.sentMessages[socket.id] == 0) {
+      setTimeout(() => {
+        if (this.sentMessages[socket.id] < ratelimit.amount) this.sentMessages[socket.id] = 0;
+      }, ratelimit.timeframe * 1000);
+    }
+
+    this.sentMessages[socket.id]++;
+
+    if (this.sentMessages[socket.id] == ratelimit.amount) {
+      setTimeout(() => {
+        if (this.sentMessages[socket.id] !== undefined) this.sentMessages[socket.id] = 0;
+      }, ratelimit.restore * 1000);
+    }
+
+    return this.sentMessages[socket.id] >= ratelimit.amount;
+  }
+}
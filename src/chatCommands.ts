@@ -0,0 +1,253 @@
+import ManifoldRoom from './room';
+import ManifoldTerminal from './terminal';
+import * as actions from './adminActions';
+import { AdminActionError } from './adminActions';
+import { ChatCommand } from './types';
+
+const teamNames = ['Spectating', 'Free For All', 'Red', 'Blue', 'Green', 'Yellow'];
+
+/**
+ * Get the id of the player targeted by a moderation command, making sure the player using the command is allowed to
+ * moderate them.
+ */
+function resolveModerationTarget(room: ManifoldRoom, playerId: number, target: string | undefined): number {
+  const targetId = actions.resolvePlayer(room, target);
+
+  if (!room.playerOutranks(playerId, targetId)) {
+    throw new AdminActionError(
+      `You can't do that to ${room.playerInfo[targetId].userName}, as they are a ${room.getPlayerRole(targetId)}.`,
+    );
+  }
+
+  return targetId;
+}
+
+const availableChatCommands: Record<string, ChatCommand> = {
+  help: {
+    usage: 'help [command (optional)]',
+    description: 'Show the list of available commands, or how to use a specific command.',
+    callback(args, playerId, room) {
+      const prefix = room.config.chatCommands.prefix;
+
+      if (args[0]) {
+        const command = getChatCommand(args[0]);
+
+        if (!command) {
+          room.sendPlayerStatusMessage(playerId, `${prefix}${args[0]} is not a valid command.`);
+          return;
+        }
+
+        room.sendPlayerStatusMessage(playerId, `Usage: ${prefix}${command.usage}`);
+        room.sendPlayerStatusMessage(playerId, command.description);
+        if (command.aliases) {
+          room.sendPlayerStatusMessage(playerId, `Aliases: ${command.aliases.map((i) => prefix + i).join(', ')}`);
+        }
+        return;
+      }
+
+      room.sendPlayerStatusMessage(playerId, 'Available commands:');
+
+      for (const name in availableChatCommands) {
+        const requiredRole = availableChatCommands[name].requiredRole;
+        if (requiredRole && !room.playerHasRole(playerId, requiredRole)) continue;
+
+        room.sendPlayerStatusMessage(playerId, `${prefix}${name} - ${availableChatCommands[name].description}`);
+      }
+    },
+    aliases: ['commands'],
+  },
+  players: {
+    usage: 'players',
+    description: 'Show a list of all the players in the room.',
+    callback(args, playerId, room) {
+      for (let i = 0; i < room.playerInfo.length; i++) {
+        const player = room.playerInfo[i];
+
+        if (!player) continue;
+
+        const level = player.guest ? 'Guest' : `Lv ${player.level}`;
+        const host = room.hostId == i ? ', host' : '';
+
+        room.sendPlayerStatusMessage(playerId, `${i}: ${player.userName} (${level}, ${teamNames[player.team]}${host})`);
+      }
+    },
+  },
+  afk: {
+    usage: 'afk',
+    description: 'Mark or unmark yourself as AFK.',
+    callback(args, playerId, room) {
+      const tabbed = !room.playerInfo[playerId].tabbed;
+
+      room.setTabbed(playerId, tabbed);
+      room.sendPlayerStatusMessage(
+        playerId,
+        tabbed ? 'You are now marked as AFK.' : 'You are no longer marked as AFK.',
+      );
+    },
+  },
+  host: {
+    usage: 'host [username or id (admins only)]',
+    description: 'Show who the current game host is. Admins can give host privileges to someone by specifying them.',
+    callback(args, playerId, room) {
+      if (args[0]) {
+        if (!room.playerHasRole(playerId, 'admin')) {
+          throw new AdminActionError("You don't have permission to give host privileges.");
+        }
+
+        room.sendPlayerStatusMessage(playerId, actions.transferHost(room, args[0]));
+        return;
+      }
+
+      if (room.playerInfo[room.hostId]) {
+        room.sendPlayerStatusMessage(playerId, `${room.playerInfo[room.hostId].userName} is the game host.`);
+      } else {
+        room.sendPlayerStatusMessage(playerId, 'There is no game host in the room.');
+      }
+    },
+  },
+  kick: {
+    usage: 'kick [username or id]',
+    description: 'Kick a player from the room.',
+    callback(args, playerId, room) {
+      resolveModerationTarget(room, playerId, args[0]);
+      room.sendPlayerStatusMessage(playerId, actions.kickPlayer(room, args[0], room.playerInfo[playerId].userName));
+    },
+    requiredRole: 'moderator',
+  },
+  mute: {
+    usage: 'mute [username or id] [duration, such as 30m, 2h or 7d (optional)]',
+    description: 'Mute a player, preventing them from sending chat messages and map requests.',
+    callback(args, playerId, room) {
+      resolveModerationTarget(room, playerId, args[0]);
+      room.sendPlayerStatusMessage(
+        playerId,
+        actions.mutePlayer(room, args[0], { duration: args[1], issuedBy: room.playerInfo[playerId].userName }),
+      );
+    },
+    requiredRole: 'moderator',
+  },
+  shadowmute: {
+    usage: 'shadowmute [username or id] [duration, such as 30m, 2h or 7d (optional)]',
+    description: 'Mute a player without telling them. Their messages are still shown to them, but to no one else.',
+    callback(args, playerId, room) {
+      resolveModerationTarget(room, playerId, args[0]);
+      room.sendPlayerStatusMessage(
+        playerId,
+        actions.mutePlayer(room, args[0], {
+          duration: args[1],
+          shadow: true,
+          issuedBy: room.playerInfo[playerId].userName,
+        }),
+      );
+    },
+    requiredRole: 'moderator',
+  },
+  unmute: {
+    usage: 'unmute [username or id]',
+    description: 'Unmute a player.',
+    callback(args, playerId, room) {
+      room.sendPlayerStatusMessage(playerId, actions.unmutePlayer(room, args[0]));
+    },
+    requiredRole: 'moderator',
+  },
+  team: {
+    usage: 'team [username or id] [spec, ffa, red, blue, green or yellow]',
+    description: 'Move a player to another team.',
+    callback(args, playerId, room) {
+      resolveModerationTarget(room, playerId, args[0]);
+      room.sendPlayerStatusMessage(playerId, actions.movePlayer(room, args[0], args[1]));
+    },
+    aliases: ['move'],
+    requiredRole: 'moderator',
+  },
+  ban: {
+    usage: 'ban [username or id] [reason (optional)]',
+    description: 'Permanently ban a player from the room.',
+    callback(args, playerId, room) {
+      resolveModerationTarget(room, playerId, args[0]);
+      room.sendPlayerStatusMessage(
+        playerId,
+        actions.banPlayer(room, args[0], {
+          reason: args.slice(1).join(' '),
+          issuedBy: room.playerInfo[playerId].userName,
+        }),
+      );
+    },
+    requiredRole: 'admin',
+  },
+  tempban: {
+    usage: 'tempban [username or id] [duration, such as 30m, 2h or 7d] [reason (optional)]',
+    description: 'Temporarily ban a player from the room.',
+    callback(args, playerId, room) {
+      resolveModerationTarget(room, playerId, args[0]);
+      room.sendPlayerStatusMessage(
+        playerId,
+        actions.banPlayer(room, args[0], {
+          duration: args[1] ?? '',
+          reason: args.slice(2).join(' '),
+          issuedBy: room.playerInfo[playerId].userName,
+        }),
+      );
+    },
+    requiredRole: 'admin',
+  },
+  unban: {
+    usage: 'unban [ban id, username or address]',
+    description: 'Unban a player.',
+    callback(args, playerId, room) {
+      room.sendPlayerStatusMessage(playerId, actions.unbanPlayer(room, args[0]));
+    },
+    requiredRole: 'admin',
+  },
+};
+
+/**
+ * Add a command to the chat command registry, making it available to every player in every room.
+ */
+export function registerChatCommand(name: string, command: ChatCommand) {
+  if (availableChatCommands[name]) throw new Error(`A chat command named "${name}" already exists.`);
+
+  availableChatCommands[name] = command;
+}
+
+export function getChatCommand(cmd: string): ChatCommand | undefined {
+  const commandKey = Object.keys(availableChatCommands).find(
+    (command) => command === cmd || availableChatCommands[command].aliases?.includes(cmd),
+  );
+  return commandKey ? availableChatCommands[commandKey] : undefined;
+}
+
+/**
+ * Run a chat command sent by a player. The message must not include the command prefix.
+ */
+export function runChatCommand(room: ManifoldRoom, playerId: number, message: string) {
+  const cmdArr = ManifoldTerminal.parseCommand(message.trim());
+  const command = getChatCommand(cmdArr[0]);
+
+  if (!command) {
+    room.sendPlayerStatusMessage(
+      playerId,
+      `${room.config.chatCommands.prefix}${cmdArr[0]} is not a valid command. Type ` +
+        `${room.config.chatCommands.prefix}help to show a list of commands.`,
+    );
+    return;
+  }
+
+  if (command.requiredRole && !room.playerHasRole(playerId, command.requiredRole)) {
+    room.sendPlayerStatusMessage(playerId, "You don't have permission to use this command.");
+    return;
+  }
+
+  try {
+    command.callback(cmdArr.slice(1), playerId, room);
+  } catch (error) {
+    // admin actions throw errors meant to be shown to the player. any other error is a bug in the command, which is
+    // logged rather than thrown, as it would take the whole server down from within the socket handler
+    if (error instanceof AdminActionError) {
+      room.sendPlayerStatusMessage(playerId, error.message);
+    } else {
+      ManifoldTerminal.consoleLog(`The chat command "${cmdArr[0]}" failed: ${error}`);
+      room.sendPlayerStatusMessage(playerId, 'Something went wrong while running this command.');
+    }
+  }
+}
@@ -0,0 +1,254 @@
+import ManifoldRoom from './room';
+import { ChatFilterAction } from './types';
+
+/**
+ * Unicode ranges of combining marks (diacritics), which zalgo text is made of.
+ */
+const combiningMarks = '\\u0300-\\u036F\\u0483-\\u0489\\u1AB0-\\u1AFF\\u1DC0-\\u1DFF\\u20D0-\\u20FF\\uFE20-\\uFE2F';
+
+/**
+ * Zero-width characters, text direction overrides and other invisible characters.
+ */
+const invisibleCharacters = /[\u200B-\u200F\u202A-\u202E\u2060-\u2064\uFEFF]/g;
+
+/**
+ * Matches links with a protocol or "www.", as well as bare domains with a common top level domain (such as
+ * "example.com/page").
+ */
+const linkRegex =
+  /\b(?:https?:\/\/|www\.)\S+|\b(?:[a-z0-9-]+\.)+(?:com|net|org|io|gg|xyz|me|co|tv|ly|to|ru|tk|app|dev)\b(?:\/\S*)?/gi;
+
+const actionSeverity: Record<ChatFilterAction, number> = {
+  censor: 1,
+  block: 2,
+  mute: 3,
+};
+
+export interface ChatFilterResult {
+  /**
+   * The filtered text, with every censored part hidden.
+   */
+  text: string;
+  /**
+   * The most severe action taken by the rules that the text broke, or `undefined` if it didn't break any rule.
+   */
+  action?: ChatFilterAction;
+  /**
+   * Description of the rule that caused the action.
+   */
+  reason?: string;
+}
+
+/**
+ * Chat filter and anti-spam heuristics of a room, configured through `restrictions.chatFilter`. The filter also keeps
+ * track of offenses, penalizing players whose messages keep getting blocked.
+ */
+export default class ManifoldChatFilter {
+  public room: ManifoldRoom;
+
+  /**
+   * Messages recently sent by each player (by player id, or by `bridge:{author}` for messages sent through the chat
+   * bridge), along with the time they were sent at.
+   */
+  public recentMessages: Record<number | string, { message: string; sentAt: number }[]> = {};
+  /**
+   * Offenses committed by each address.
+   */
+  public offenses: Record<string, { count: number; lastOffenseAt: number }> = {};
+  /**
+   * Compiled blocked patterns. Invalid patterns are stored as `null` so that they're only reported once.
+   */
+  public compiledPatterns: Map<string, RegExp | null> = new Map();
+
+  constructor(room: ManifoldRoom) {
+    this.room = room;
+  }
+
+  get config() {
+    return this.room.config.restrictions.chatFilter;
+  }
+
+  /**
+   * Run a chat message through every rule of the filter, including the anti-spam heuristics. `playerId` is the key
+   * the player's recent messages are kept under.
+   */
+  filterChatMessage(playerId: number | string, message: string): ChatFilterResult {
+    const result = this.applyRules(message);
+    if (!this.config.enabled) return result;
+
+    const caps = this.config.caps;
+    const letters = result.text.replace(/[^A-Za-z]/g, '');
+    const capitalLetters = letters.replace(/[^A-Z]/g, '');
+
+    if (caps.enabled && letters.length >= caps.minLength && capitalLetters.length / letters.length > caps.maxRatio) {
+      this.addAction(result, caps.action, 'too many capital letters');
+      if (caps.action == 'censor') result.text = result.text.toLowerCase();
+    }
+
+    const repeated = this.config.repeatedMessages;
+
+    if (repeated.enabled) {
+      const now = Date.now();
+      const normalizedMessage = message.trim().toLowerCase();
+
+      const history = (this.recentMessages[playerId] ?? []).filter((i) => now - i.sentAt < repeated.timeframe * 1000);
+      this.recentMessages[playerId] = history;
+
+      if (history.filter((i) => i.message === normalizedMessage).length >= repeated.maxRepeats) {
+        this.addAction(result, repeated.action == 'censor' ? 'block' : repeated.action, 'repeated message');
+      }
+
+      history.push({ message: normalizedMessage, sentAt: now });
+    }
+
+    return result;
+  }
+
+  /**
+   * Run the name and author of a requested map through the word, pattern, link and zalgo rules.
+   */
+  filterMapRequest(mapName: string, mapAuthor: string): ChatFilterResult & { author: string } {
+    if (!this.config.applyToMapRequests) return { text: mapName, author: mapAuthor };
+
+    const nameResult = this.applyRules(mapName);
+    const authorResult = this.applyRules(mapAuthor);
+
+    if (authorResult.action) this.addAction(nameResult, authorResult.action, authorResult.reason!);
+
+    return { ...nameResult, author: authorResult.text };
+  }
+
+  /**
+   * Check whether a username is allowed by the word, pattern, link and zalgo rules.
+   */
+  isUsernameAllowed(username: string): boolean {
+    if (!this.config.applyToUsernames) return true;
+
+    return this.applyRules(username).action === undefined;
+  }
+
+  /**
+   * Run a piece of text through the word, pattern, link and zalgo rules.
+   */
+  applyRules(text: string): ChatFilterResult {
+    const result: ChatFilterResult = { text };
+    if (!this.config.enabled) return result;
+
+    for (const rule of this.config.blockedWords) {
+      const regex = new RegExp(`\\b${rule.pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'gi');
+      this.applyRegex(result, regex, rule.action, 'blocked word');
+    }
+
+    for (const rule of this.config.blockedPatterns) {
+      const regex = this.compilePattern(rule.pattern);
+      if (regex) this.applyRegex(result, regex, rule.action, 'blocked pattern');
+    }
+
+    const links = this.config.links;
+
+    if (links.enabled) {
+      result.text = result.text.replace(linkRegex, (link) => {
+        const domain = link
+          .replace(/^https?:\/\//i, '')
+          .split(/[/?#:]/)[0]
+          .toLowerCase();
+
+        if (links.allowedDomains.some((i) => domain === i || domain.endsWith(`.${i}`))) return link;
+
+        this.addAction(result, links.action, 'links are not allowed');
+        return links.action == 'censor' ? '*'.repeat(link.length) : link;
+      });
+    }
+
+    const zalgo = this.config.zalgo;
+    const zalgoRegex = new RegExp(`([${combiningMarks}]{${zalgo.maxCombiningMarks}})[${combiningMarks}]+`, 'g');
+
+    if (zalgo.enabled && (zalgoRegex.test(result.text) || invisibleCharacters.test(result.text))) {
+      this.addAction(result, zalgo.action, 'zalgo or invisible characters');
+
+      if (zalgo.action == 'censor') {
+        result.text = result.text.replace(zalgoRegex, '$1').replace(invisibleCharacters, '');
+      }
+    }
+
+    // test() moves the lastIndex of global regexes forward, so it must be reset for the next time it's used
+    invisibleCharacters.lastIndex = 0;
+
+    return result;
+  }
+
+  /**
+   * Penalize a player whose message broke a rule. Censored messages aren't penalized, blocked messages count as an
+   * offense, and messages that break a rule with the `mute` action get the player muted right away. Players who are
+   * already muted only have their offense counted, until they get kicked.
+   */
+  penalize(playerId: number, action: ChatFilterAction, reason: string) {
+    if (action == 'censor') return;
+
+    const penalties = this.config.penalties;
+    const address = this.room.playerSockets[playerId].handshake.address;
+    const now = Date.now();
+
+    let offense = this.offenses[address];
+
+    if (!offense || now - offense.lastOffenseAt > penalties.offenseTimeframe * 1000) {
+      offense = this.offenses[address] = { count: 0, lastOffenseAt: now };
+    }
+
+    offense.count++;
+    offense.lastOffenseAt = now;
+
+    if (action == 'mute') offense.count = Math.max(offense.count, penalties.muteAfter);
+
+    if (penalties.kickAfter > 0 && offense.count >= penalties.kickAfter) {
+      this.room.kickPlayer(playerId, 'chat filter');
+      return;
+    }
+
+    if (this.room.getPlayerMute(playerId)) return;
+
+    if (action == 'mute' || (penalties.muteAfter > 0 && offense.count >= penalties.muteAfter)) {
+      this.room.sendPlayerStatusMessage(playerId, `* Your message was blocked (${reason}).`);
+      this.room.mutePlayer(playerId, false, 'chat filter', now + penalties.muteDuration * 1000);
+    } else {
+      this.room.sendPlayerStatusMessage(
+        playerId,
+        `* Your message was blocked (${reason}). Keep breaking the chat rules and you will be muted.`,
+      );
+    }
+  }
+
+  /**
+   * Forget the recent messages of a player who left the room.
+   */
+  forgetPlayer(playerId: number) {
+    delete this.recentMessages[playerId];
+  }
+
+  addAction(result: ChatFilterResult, action: ChatFilterAction, reason: string) {
+    if (result.action !== undefined && actionSeverity[result.action] >= actionSeverity[action]) return;
+
+    result.action = action;
+    result.reason = reason;
+  }
+
+  applyRegex(result: ChatFilterResult, regex: RegExp, action: ChatFilterAction, reason: string) {
+    result.text = result.text.replace(regex, (match) => {
+      this.addAction(result, action, reason);
+      return action == 'censor' ? '*'.repeat(match.length) : match;
+    });
+  }
+
+  compilePattern(pattern: string): RegExp | null {
+    if (!this.compiledPatterns.has(pattern)) {
+      try {
+        this.compiledPatterns.set(pattern, new RegExp(pattern, 'gi'));
+      } catch (error) {
+        console.log(`Chat filter pattern "${pattern}" is not a valid regular expression, so it will be ignored.`);
+        this.compiledPatterns.set(pattern, null);
+      }
+    }
+
+    return this.compiledPatterns.get(pattern)!;
+  }
+}
@@ -0,0 +1,561 @@
+import fs from 'fs';
+import path from 'node:path';
+import { isDeepStrictEqual } from 'node:util';
+import YAML from 'yaml';
+
+import ManifoldBanList from './banList';
+import { journalEventTypes } from './journal';
+import { Config, RoomConfig } from './types';
+
+/**
+ * Files the config is loaded from when no path is given, in order of preference.
+ */
+const defaultConfigFiles = ['config.json', 'config.yaml', 'config.yml'];
+
+/**
+ * Settings that can be set for each room, besides the room id.
+ */
+const roomSettings = [
+  'roomNameOnStartup',
+  'roomPasswordOnStartup',
+  'defaultGameSettings',
+  'maxPlayers',
+  'autoAssignHost',
+  'hostRoomSettings',
+];
+
+/**
+ * Format of the items of every list, by path. Lists that aren't listed here use the format of their first default
+ * item.
+ */
+const listItemDefaults: Record<string, unknown> = {
+  'restrictions.chatFilter.blockedWords': { pattern: '', action: 'block' },
+  'restrictions.chatFilter.blockedPatterns': { pattern: '', action: 'block' },
+  'restrictions.chatFilter.links.allowedDomains': '',
+  'defaultGameSettings.bal': 0,
+  'shutdown.restartSignals': 'SIGTERM',
+  'metrics.allowedAddresses': '',
+  'webhooks.targets': { url: '', secret: '', events: [] },
+  'webhooks.targets[].events': 'join',
+};
+
+/**
+ * Allowed values of the settings that only accept a few specific strings, by path. List items are written as `[]`.
+ */
+const allowedValues: Record<string, string[]> = {
+  'playlist.order': ['sequential', 'shuffle'],
+  'restrictions.inputs.action': ['drop', 'warn', 'kick', 'ban'],
+  'restrictions.chatFilter.repeatedMessages.action': ['censor', 'block', 'mute'],
+  'restrictions.chatFilter.caps.action': ['censor', 'block', 'mute'],
+  'restrictions.chatFilter.links.action': ['censor', 'block', 'mute'],
+  'restrictions.chatFilter.zalgo.action': ['censor', 'block', 'mute'],
+  'restrictions.chatFilter.blockedWords[].action': ['censor', 'block', 'mute'],
+  'restrictions.chatFilter.blockedPatterns[].action': ['censor', 'block', 'mute'],
+  'shutdown.restartSignals[]': ['SIGINT', 'SIGTERM'],
+  'webhooks.targets[].events[]': [...journalEventTypes, 'server_closing'],
+};
+
+/**
+ * Formats that some string settings must follow, by path, along with a description of the format.
+ */
+const settingFormats: Record<string, { description: string; check: (value: string) => boolean }> = {
+  'metrics.allowedAddresses[]': { description: 'an IP address or CIDR range', check: ManifoldBanList.isValidAddress },
+  'webhooks.targets[].url': { description: 'an http or https URL', check: isHttpUrl },
+};
+
+interface SettingRange {
+  min?: number;
+  max?: number;
+  /**
+   * If `true`, the setting must be greater than `min`, rather than greater than or equal to it.
+   */
+  exclusiveMin?: boolean;
+  integer?: boolean;
+}
+
+/**
+ * Range of every numeric setting, by path. List items are written as `[]`, and `*` stands for any key.
+ */
+const settingRanges: Record<string, SettingRange> = {
+  port: { min: 0, max: 65535, integer: true },
+  maxPlayers: { min: 1, integer: true },
+  'defaultGameSettings.wl': { min: 1, integer: true },
+  'defaultGameSettings.gt': { min: 1, max: 2, integer: true },
+  'defaultGameSettings.bal[]': { min: -100, max: 100, integer: true },
+  'restrictions.maxChatMessageLength': { min: 1, integer: true },
+  'restrictions.usernames.maxLength': { min: 1, integer: true },
+  'restrictions.levels.minLevel': { min: 0, integer: true },
+  'restrictions.levels.maxLevel': { min: 0, integer: true },
+  'restrictions.ratelimits.*.amount': { min: 1, integer: true },
+  'restrictions.ratelimits.*.timeframe': { min: 0, exclusiveMin: true },
+  'restrictions.ratelimits.*.restore': { min: 0 },
+  'restrictions.chatFilter.repeatedMessages.maxRepeats': { min: 1, integer: true },
+  'restrictions.chatFilter.repeatedMessages.timeframe': { min: 0, exclusiveMin: true },
+  'restrictions.chatFilter.caps.minLength': { min: 1, integer: true },
+  'restrictions.chatFilter.caps.maxRatio': { min: 0, max: 1 },
+  'restrictions.chatFilter.zalgo.maxCombiningMarks': { min: 0, integer: true },
+  'restrictions.chatFilter.penalties.muteAfter': { min: 0, integer: true },
+  'restrictions.chatFilter.penalties.muteDuration': { min: 0, exclusiveMin: true },
+  'restrictions.chatFilter.penalties.kickAfter': { min: 0, integer: true },
+  'restrictions.chatFilter.penalties.offenseTimeframe': { min: 0, exclusiveMin: true },
+  'restrictions.packetValidation.maxInvalidPackets': { min: 0, integer: true },
+  'restrictions.packetValidation.timeframe': { min: 0, exclusiveMin: true },
+  'restrictions.inputs.maxPerSecond': { min: 1, integer: true },
+  'restrictions.inputs.maxSize': { min: 1, integer: true },
+  'restrictions.inputs.maxViolations': { min: 1, integer: true },
+  'restrictions.inputs.timeframe': { min: 0, exclusiveMin: true },
+  'restrictions.inputs.banDuration': { min: 0 },
+  'xp.xpPerGain': { min: 0, integer: true },
+  'xp.cooldown': { min: 0 },
+  'xp.dailyLimit': { min: 0, integer: true },
+  'journal.maxFileSize': { min: 0, exclusiveMin: true },
+  'journal.maxFiles': { min: 0, integer: true },
+  'journal.maxAge': { min: 0 },
+  'recordings.maxRecordings': { min: 0, integer: true },
+  'roomState.saveInterval': { min: 0, exclusiveMin: true },
+  'shutdown.drainTimeout': { min: 0 },
+  'webhooks.maxRetries': { min: 0, integer: true },
+  'webhooks.retryDelay': { min: 0 },
+  'webhooks.timeout': { min: 0, exclusiveMin: true },
+  'chatBridge.ratelimit.amount': { min: 1, integer: true },
+  'chatBridge.ratelimit.timeframe': { min: 0, exclusiveMin: true },
+  'chatBridge.ratelimit.restore': { min: 0 },
+};
+
+export interface ConfigOptions {
+  /**
+   * Path of the config file. If not given, `config.json`, `config.yaml` or `config.yml` is used if it exists.
+   */
+  configPath?: string;
+  port?: number;
+  useHttps?: boolean;
+}
+
+/**
+ * Error thrown when the config can't be loaded, listing every problem found in it.
+ */
+export class ConfigError extends Error {
+  public problems: string[];
+
+  constructor(message: string, problems: string[] = []) {
+    super(problems.length > 0 ? `${message}\n${problems.map((i) => `  - ${i}`).join('\n')}` : message);
+    this.problems = problems;
+  }
+}
+
+/**
+ * Read the config options given through command line flags: `--config <path>`, `--port <port>`, `--https` and
+ * `--no-https`.
+ */
+export function parseArgs(args: string[]): ConfigOptions {
+  const options: ConfigOptions = {};
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--config':
+      case '-c':
+        options.configPath = args[++i];
+        if (!options.configPath) throw new ConfigError(`${args[i - 1]} requires a file path.`);
+        break;
+      case '--port':
+      case '-p':
+        options.port = parsePort(args[++i], args[i - 1]);
+        break;
+      case '--https':
+        options.useHttps = true;
+        break;
+      case '--no-https':
+        options.useHttps = false;
+        break;
+      default:
+        throw new ConfigError(`Unknown command line option "${args[i]}".`);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Read the config options given through environment variables: `MANIFOLD_CONFIG` (config path), `PORT` (used by
+ * hosting services such as Render and Heroku) and `MANIFOLD_HTTPS` (`true` or `false`).
+ */
+export function parseEnv(env: NodeJS.ProcessEnv): ConfigOptions {
+  const options: ConfigOptions = {};
+
+  if (env.MANIFOLD_CONFIG) options.configPath = env.MANIFOLD_CONFIG;
+  if (env.PORT) options.port = parsePort(env.PORT, 'PORT');
+
+  if (env.MANIFOLD_HTTPS) {
+    if (!['true', 'false'].includes(env.MANIFOLD_HTTPS)) throw new ConfigError('MANIFOLD_HTTPS must be true or false.');
+    options.useHttps = env.MANIFOLD_HTTPS == 'true';
+  }
+
+  return options;
+}
+
+function parsePort(value: string | undefined, source: string): number {
+  const port = Number(value);
+
+  if (!/^[0-9]+$/.test(String(value)) || port < 0 || port > 65535) {
+    throw new ConfigError(`${source} must be a port number between 0 and 65535, got "${value ?? ''}".`);
+  }
+
+  return port;
+}
+
+/**
+ * Read the config options given through the environment variables and the command line flags. Flags take precedence
+ * over environment variables.
+ */
+export function getConfigOptions(
+  args: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env,
+): ConfigOptions {
+  return { ...parseEnv(env), ...parseArgs(args) };
+}
+
+/**
+ * Get the path of the config file to load: the given path, or the first of the default files that exists. Returns
+ * `undefined` if no path was given and none of the default files exist.
+ */
+export function findConfigFile(configPath?: string): string | undefined {
+  if (!configPath) return defaultConfigFiles.find((file) => fs.existsSync(file));
+
+  if (!fs.existsSync(configPath)) throw new ConfigError(`Config file "${configPath}" doesn't exist.`);
+
+  return configPath;
+}
+
+/**
+ * Load the config, starting from the defaults set in `config.ts` and applying, in order, the config file, the
+ * environment variables and the command line flags. Throws a `ConfigError` if the result isn't a valid config.
+ */
+export function loadConfig(
+  defaults: Config,
+  args: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env,
+): Config {
+  const options = getConfigOptions(args, env);
+  const configPath = findConfigFile(options.configPath);
+
+  let config = defaults;
+
+  if (configPath) {
+    const fileConfig = readConfigFile(configPath);
+    const problems = validateConfig(defaults, fileConfig);
+
+    if (problems.length > 0) throw new ConfigError(`The config file "${configPath}" has invalid settings:`, problems);
+
+    config = mergeConfig(defaults, fileConfig as Partial<Config>);
+  }
+
+  if (options.port !== undefined) config = { ...config, port: options.port };
+  if (options.useHttps !== undefined) config = { ...config, useHttps: options.useHttps };
+
+  return config;
+}
+
+/**
+ * Parse a JSON or YAML config file, depending on its extension.
+ */
+export function readConfigFile(configPath: string): unknown {
+  const content = fs.readFileSync(configPath, { encoding: 'utf8' });
+
+  try {
+    if (['.yaml', '.yml'].includes(path.extname(configPath).toLowerCase())) return YAML.parse(content) ?? {};
+
+    return JSON.parse(content);
+  } catch (error) {
+    throw new ConfigError(`The config file "${configPath}" could not be parsed: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Check the settings of a config file, which can leave out any setting. Returns a description of every problem found.
+ */
+export function validateConfig(defaults: Config, fileConfig: unknown): string[] {
+  const problems: string[] = [];
+
+  if (typeof fileConfig !== 'object' || fileConfig === null || Array.isArray(fileConfig)) {
+    return ['The config must be an object.'];
+  }
+
+  const { rooms, ...settings } = fileConfig as Record<string, unknown>;
+  validateSetting(defaults, settings, '', problems);
+
+  if (Array.isArray(rooms)) {
+    for (let i = 0; i < rooms.length; i++) {
+      const room = rooms[i];
+      const roomPath = `rooms[${i}]`;
+
+      if (typeof room !== 'object' || room === null || Array.isArray(room)) {
+        problems.push(`${roomPath} must be an object.`);
+        continue;
+      }
+
+      if (typeof room.id !== 'string') problems.push(`${roomPath}.id must be a string.`);
+
+      for (const key in room) {
+        if (key == 'id') continue;
+
+        if (!roomSettings.includes(key)) {
+          problems.push(`${roomPath}.${key} is not a setting that can be set for a single room.`);
+          continue;
+        }
+
+        validateSetting(defaults[key as keyof Config], room[key], `${roomPath}.${key}`, problems);
+      }
+    }
+  } else if (rooms !== undefined) {
+    problems.push('rooms must be a list.');
+  }
+
+  // settings that depend on each other can only be compared once each of them is known to be valid
+  if (problems.length == 0)
+    problems.push(...validateRelatedSettings(mergeConfig(defaults, fileConfig as Partial<Config>)));
+
+  return problems;
+}
+
+function validateRelatedSettings(config: Config): string[] {
+  const problems: string[] = [];
+
+  const levels = config.restrictions.levels;
+  if (levels.maxLevel < levels.minLevel) {
+    problems.push('restrictions.levels.maxLevel cannot be lower than restrictions.levels.minLevel.');
+  }
+
+  const penalties = config.restrictions.chatFilter.penalties;
+  if (penalties.muteAfter > 0 && penalties.kickAfter > 0 && penalties.kickAfter <= penalties.muteAfter) {
+    problems.push(
+      'restrictions.chatFilter.penalties.kickAfter must be greater than restrictions.chatFilter.penalties.muteAfter.',
+    );
+  }
+
+  return problems;
+}
+
+/**
+ * Check a setting against its default value, which determines its type. Problems are added to the `problems` array,
+ * along with the path of the setting.
+ */
+function validateSetting(defaultValue: unknown, value: unknown, settingPath: string, problems: string[]) {
+  const name = settingPath || 'The config';
+
+  // regular expressions are written as strings in config files
+  if (defaultValue instanceof RegExp) {
+    if (typeof value !== 'string') {
+      problems.push(`${name} must be a regular expression, written as a string.`);
+      return;
+    }
+
+    try {
+      new RegExp(value);
+    } catch (error) {
+      problems.push(`${name} is not a valid regular expression: ${(error as Error).message}`);
+    }
+    return;
+  }
+
+  // settings that can be left empty are null by default
+  if (defaultValue === null) {
+    if (value !== null && typeof value !== 'string') problems.push(`${name} must be a string or null.`);
+    return;
+  }
+
+  if (Array.isArray(defaultValue)) {
+    if (!Array.isArray(value)) {
+      problems.push(`${name} must be a list.`);
+      return;
+    }
+
+    const itemDefault = listItemDefaults[getGenericPath(settingPath)] ?? defaultValue[0];
+    if (itemDefault === undefined) return;
+
+    for (let i = 0; i < value.length; i++) {
+      validateSetting(itemDefault, value[i], `${settingPath}[${i}]`, problems);
+    }
+    return;
+  }
+
+  if (typeof defaultValue === 'object') {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      problems.push(`${name} must be an object.`);
+      return;
+    }
+
+    for (const key in value) {
+      const keyPath = settingPath ? `${settingPath}.${key}` : key;
+
+      if (!(key in defaultValue)) {
+        problems.push(`${keyPath} is not a known setting.`);
+        continue;
+      }
+
+      validateSetting(
+        (defaultValue as Record<string, unknown>)[key],
+        (value as Record<string, unknown>)[key],
+        keyPath,
+        problems,
+      );
+    }
+    return;
+  }
+
+  if (typeof value !== typeof defaultValue) {
+    problems.push(`${name} must be a ${typeof defaultValue}, got ${JSON.stringify(value)}.`);
+    return;
+  }
+
+  const genericPath = getGenericPath(settingPath);
+
+  if (typeof value == 'number') {
+    const range = getSettingRange(genericPath);
+
+    if (!Number.isFinite(value)) {
+      problems.push(`${name} must be a finite number.`);
+    } else if (range && !isInRange(value, range)) {
+      problems.push(`${name} must be ${describeRange(range)}, got ${value}.`);
+    }
+  }
+
+  const allowed = allowedValues[genericPath];
+  if (allowed && !allowed.includes(value as string)) problems.push(`${name} must be one of: ${allowed.join(', ')}.`);
+
+  const format = settingFormats[genericPath];
+  if (format && !format.check(value as string)) problems.push(`${name} must be ${format.description}.`);
+}
+
+/**
+ * Get the path that a setting is listed under in the tables above, which leaves out the room the setting belongs to
+ * and writes list items as `[]`.
+ */
+function getGenericPath(settingPath: string): string {
+  return settingPath.replace(/^rooms\[[0-9]+\]\./, '').replace(/\[[0-9]+\]/g, '[]');
+}
+
+/**
+ * Get the range of a numeric setting through its generic path (see `getGenericPath`).
+ */
+export function getSettingRange(genericPath: string): SettingRange | undefined {
+  const keys = genericPath.split('.');
+
+  for (const rangePath in settingRanges) {
+    const rangeKeys = rangePath.split('.');
+
+    if (rangeKeys.length == keys.length && rangeKeys.every((key, i) => key == '*' || key == keys[i])) {
+      return settingRanges[rangePath];
+    }
+  }
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch (error) {
+    return false;
+  }
+}
+
+function isInRange(value: number, range: SettingRange): boolean {
+  if (range.integer && !Number.isInteger(value)) return false;
+  if (range.min !== undefined && (range.exclusiveMin ? value <= range.min : value < range.min)) return false;
+  if (range.max !== undefined && value > range.max) return false;
+
+  return true;
+}
+
+function describeRange(range: SettingRange): string {
+  const type = range.integer ? 'a whole number' : 'a number';
+
+  if (range.min !== undefined && range.max !== undefined) return `${type} between ${range.min} and ${range.max}`;
+  if (range.min !== undefined) return `${type} ${range.exclusiveMin ? 'greater than' : 'of at least'} ${range.min}`;
+  if (range.max !== undefined) return `${type} of at most ${range.max}`;
+
+  return type;
+}
+
+/**
+ * Apply the settings of a config file on top of the default config. Objects are merged, while any other setting
+ * (including lists) replaces the default value.
+ */
+export function mergeConfig(defaults: Config, fileConfig: Partial<Config>): Config {
+  const config = mergeSetting(defaults, { ...fileConfig, rooms: undefined }) as Config;
+
+  // rooms can leave out parts of the settings they override too
+  config.rooms = (fileConfig.rooms ?? defaults.rooms).map((room) => {
+    const mergedRoom: Record<string, unknown> = { ...room };
+
+    for (const key in room) {
+      if (key != 'id') mergedRoom[key] = mergeSetting(config[key as keyof Config], mergedRoom[key]);
+    }
+
+    return mergedRoom as unknown as RoomConfig;
+  });
+
+  return config;
+}
+
+function mergeSetting(defaultValue: unknown, value: unknown): unknown {
+  if (value === undefined) return defaultValue;
+  if (defaultValue instanceof RegExp) return typeof value === 'string' ? new RegExp(value) : value;
+
+  if (
+    typeof defaultValue === 'object' &&
+    defaultValue !== null &&
+    !Array.isArray(defaultValue) &&
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value)
+  ) {
+    const result: Record<string, unknown> = { ...defaultValue };
+
+    for (const key in value) {
+      result[key] = mergeSetting(result[key], (value as Record<string, unknown>)[key]);
+    }
+
+    return result;
+  }
+
+  return value;
+}
+
+/**
+ * Get the paths of the settings that differ between two configs, such as `restrictions.ratelimits.chatting`. Objects
+ * are compared setting by setting, while any other setting (including lists) is compared as a whole.
+ */
+export function diffConfig(oldConfig: unknown, newConfig: unknown, settingPath: string = ''): string[] {
+  if (!isPlainObject(oldConfig) || !isPlainObject(newConfig)) {
+    return isDeepStrictEqual(oldConfig, newConfig) ? [] : [settingPath];
+  }
+
+  const changes: string[] = [];
+
+  for (const key of new Set([...Object.keys(oldConfig), ...Object.keys(newConfig)])) {
+    changes.push(...diffConfig(oldConfig[key], newConfig[key], settingPath ? `${settingPath}.${key}` : key));
+  }
+
+  return changes;
+}
+
+/**
+ * Get the value of a setting through its path, such as `restrictions.ratelimits.chatting`.
+ */
+export function getSetting(config: unknown, settingPath: string): unknown {
+  return settingPath.split('.').reduce((value, key) => (isPlainObject(value) ? value[key] : undefined), config);
+}
+
+/**
+ * Get a copy of a config with a setting changed. The config itself is left untouched, as parts of it can be shared
+ * with the defaults.
+ */
+export function setSetting<T>(config: T, settingPath: string, value: unknown): T {
+  const [key, ...rest] = settingPath.split('.');
+  const object = config as Record<string, unknown>;
+
+  return { ...object, [key]: rest.length > 0 ? setSetting(object[key], rest.join('.'), value) : value } as T;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof RegExp);
+}
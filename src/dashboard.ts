@@ -0,0 +1,211 @@
+import path from 'node:path';
+import socketIO from 'socket.io';
+
+import ManifoldServer from './server';
+import ManifoldRoom from './room';
+import ManifoldTerminal from './terminal';
+import * as actions from './adminActions';
+import { safeCompare } from './utils';
+
+/**
+ * Amount of chat log lines per room kept in memory to show to admins when they open the dashboard.
+ */
+const chatHistoryLength = 100;
+
+/**
+ * Amount of failed login attempts an address can make before getting locked out, and for how long (in seconds).
+ */
+const maxLoginAttempts = 5;
+const loginLockoutTime = 60;
+
+/**
+ * Get the player (username or id) targeted by an action sent by the dashboard.
+ */
+function getTargetArg(arg: unknown): string | number {
+  if (typeof arg !== 'string' && typeof arg !== 'number') throw new actions.AdminActionError('Invalid player.');
+
+  return arg;
+}
+
+/**
+ * Get an optional piece of text (such as a ban reason) sent by the dashboard. Empty text counts as not given.
+ */
+function getOptionalTextArg(arg: unknown, name: string): string | undefined {
+  if (arg === undefined || arg === null || arg === '') return undefined;
+  if (typeof arg !== 'string') throw new actions.AdminActionError(`The ${name} must be text.`);
+
+  return arg;
+}
+
+/**
+ * Actions that can be performed from the dashboard. Every action receives the room and the arguments sent by the
+ * dashboard, and returns a message describing what happened.
+ */
+const dashboardActions = new Map<string, (room: ManifoldRoom, args: unknown[]) => string>([
+  ['kick', (room, args) => actions.kickPlayer(room, getTargetArg(args[0]), 'dashboard')],
+  [
+    'ban',
+    (room, args) =>
+      actions.banPlayer(room, getTargetArg(args[0]), {
+        reason: getOptionalTextArg(args[1], 'reason'),
+        issuedBy: 'dashboard',
+      }),
+  ],
+  [
+    'mute',
+    (room, args) =>
+      actions.mutePlayer(room, getTargetArg(args[0]), {
+        duration: getOptionalTextArg(args[1], 'duration'),
+        issuedBy: 'dashboard',
+      }),
+  ],
+  ['unmute', (room, args) => actions.unmutePlayer(room, getTargetArg(args[0]))],
+  ['host', (room, args) => actions.transferHost(room, args[0] === undefined ? undefined : getTargetArg(args[0]))],
+  [
+    'scheduledclose',
+    (room, args) => {
+      const minutes = getOptionalTextArg(args[0], 'time until force-stop');
+      return actions.scheduleClose(room, minutes === undefined ? undefined : parseFloat(minutes));
+    },
+  ],
+  ['abortscheduledclose', (room) => actions.abortScheduledClose(room)],
+]);
+
+/**
+ * Admin web page served at `/admin`. The page itself is static: it logs in and receives live room state through the
+ * `/admin` socket.io namespace, which only accepts connections made with the credentials set in the config.
+ */
+export default class ManifoldDashboard {
+  public server: ManifoldServer;
+  public namespace: socketIO.Namespace;
+
+  public chatHistory: Record<string, string[]> = {};
+  public lastSentStates: Record<string, string> = {};
+  public failedLogins: Record<string, number> = {};
+
+  private pushInterval: NodeJS.Timeout;
+
+  constructor(server: ManifoldServer) {
+    this.server = server;
+
+    this.server.expressApp.get('/admin', (_req, res) => {
+      res.sendFile(path.join(__dirname, 'dashboard.html'));
+    });
+
+    this.namespace = this.server.io.of('/admin');
+    this.namespace.use((socket, next) => this.authenticate(socket, next));
+    this.namespace.on('connection', (socket) => this.handleConnection(socket));
+
+    // room state is compared against the last state sent, and only pushed to the dashboard if it changed
+    this.pushInterval = setInterval(() => this.pushRoomStates(), 500);
+  }
+
+  authenticate(socket: socketIO.Socket, next: (err?: Error) => void) {
+    const address = socket.handshake.address;
+    const { username, password } = this.server.config.dashboard;
+
+    if ((this.failedLogins[address] ?? 0) >= maxLoginAttempts) {
+      next(new Error('Too many failed login attempts. Try again later.'));
+      return;
+    }
+
+    if (
+      !password ||
+      !safeCompare(String(socket.handshake.auth.username), username) ||
+      !safeCompare(String(socket.handshake.auth.password), password)
+    ) {
+      this.failedLogins[address] = (this.failedLogins[address] ?? 0) + 1;
+
+      if (this.failedLogins[address] == maxLoginAttempts) {
+        setTimeout(() => {
+          delete this.failedLogins[address];
+        }, loginLockoutTime * 1000);
+      }
+
+      next(new Error('Invalid username or password.'));
+      return;
+    }
+
+    next();
+  }
+
+  handleConnection(socket: socketIO.Socket) {
+    socket.emit(
+      'rooms',
+      this.server.rooms.map((room) => ({
+        ...this.getRoomState(room),
+        chat: this.chatHistory[room.id] ?? [],
+      })),
+    );
+
+    socket.on('action', (roomId, actionName, args, callback) => {
+      if (typeof callback !== 'function') return;
+
+      const room = this.server.getRoom(roomId);
+      const action = dashboardActions.get(actionName);
+
+      if (!room || !action || !Array.isArray(args)) {
+        callback({ error: 'Invalid action.' });
+        return;
+      }
+
+      try {
+        callback({ message: action(room, args) });
+      } catch (error) {
+        if (error instanceof actions.AdminActionError) {
+          callback({ error: error.message });
+        } else {
+          ManifoldTerminal.consoleLog(`The dashboard action "${actionName}" failed: ${error}`);
+          callback({ error: 'Internal error.' });
+        }
+      }
+
+      this.pushRoomStates();
+    });
+  }
+
+  /**
+   * Stop pushing room states, which happens when the server shuts down.
+   */
+  stop() {
+    clearInterval(this.pushInterval);
+  }
+
+  getRoomState(room: ManifoldRoom) {
+    return {
+      id: room.id,
+      roomName: room.roomName,
+      password: room.password,
+      closed: room.closed,
+      maxPlayers: room.config.maxPlayers,
+      gameSettings: room.gameSettings,
+      players: actions.getPlayers(room),
+    };
+  }
+
+  pushRoomStates() {
+    if (this.namespace.sockets.size == 0) return;
+
+    for (const room of this.server.rooms) {
+      const state = this.getRoomState(room);
+      const stateString = JSON.stringify(state);
+
+      if (this.lastSentStates[room.id] === stateString) continue;
+
+      this.lastSentStates[room.id] = stateString;
+      this.namespace.emit('state', state);
+    }
+  }
+
+  /**
+   * Store a chat log line and push it to every admin looking at the dashboard.
+   */
+  pushChatLine(room: ManifoldRoom, line: string) {
+    const history = (this.chatHistory[room.id] ??= []);
+
+    history.push(line);
+    if (history.length > chatHistoryLength) history.shift();
+
+    this.namespace.emit('chat', room.id, line);
+  }
+}
@@ -18,6 +18,9 @@ export const SET_READY = '16';
 export const MAP_REQUEST = '27';
 export const FRIEND_REQUEST = '35';
 export const SET_TABBED = '44';
+export const VOTE_MAP = '39';
+export const GET_MAP_VOTES = '41';
+export const REQUEST_XP = '38';
 
 /* #endregion NON-HOST ACTIONS */
 
@@ -0,0 +1,120 @@
+import ManifoldRoom from './room';
+
+interface InputState {
+  /**
+   * Start time of the game the state belongs to. Frame numbers start over every game.
+   */
+  gameStartTime: number;
+  lastFrame: number;
+  /**
+   * Times at which the input packets of the last second were received.
+   */
+  recentInputs: number[];
+  violations: number;
+  firstViolationAt: number;
+}
+
+/**
+ * Sanity checks and flood protection for the inputs sent by players during games, which are the most frequent packets
+ * by far and are relayed to everyone in the room. Invalid inputs are always dropped, and players who keep sending them
+ * are handled according to the `restrictions.inputs.action` setting of the config.
+ */
+export default class ManifoldInputGuard {
+  public room: ManifoldRoom;
+  public states: Record<number, InputState> = {};
+
+  constructor(room: ManifoldRoom) {
+    this.room = room;
+  }
+
+  get config() {
+    return this.room.config.restrictions.inputs;
+  }
+
+  /**
+   * Check an input packet sent by a player. Returns `true` if the inputs should be relayed to the room.
+   */
+  checkInputs(playerId: number, data: { f: number }): boolean {
+    if (!this.config.enabled) return true;
+
+    const now = Date.now();
+    let state = this.states[playerId];
+
+    if (!state || state.gameStartTime != this.room.gameStartTime) {
+      state = this.states[playerId] = {
+        gameStartTime: this.room.gameStartTime,
+        lastFrame: -1,
+        recentInputs: [],
+        violations: state?.violations ?? 0,
+        firstViolationAt: state?.firstViolationAt ?? 0,
+      };
+    }
+
+    state.recentInputs = state.recentInputs.filter((time) => now - time < 1000);
+    state.recentInputs.push(now);
+
+    let violation: string | undefined;
+
+    if (!this.room.gameInProgress) {
+      violation = 'no game is running';
+    } else if (this.room.playerInfo[playerId].team == 0) {
+      violation = 'player is spectating';
+    } else if (state.recentInputs.length > this.config.maxPerSecond) {
+      violation = 'too many inputs per second';
+    } else if (JSON.stringify(data).length > this.config.maxSize) {
+      violation = 'input packet is too big';
+    } else if (data.f < state.lastFrame) {
+      violation = 'frame number went backwards';
+    }
+
+    if (!violation) {
+      state.lastFrame = data.f;
+      return true;
+    }
+
+    this.addViolation(playerId, state, violation);
+    return false;
+  }
+
+  addViolation(playerId: number, state: InputState, reason: string) {
+    const now = Date.now();
+
+    if (now - state.firstViolationAt > this.config.timeframe * 1000) {
+      state.violations = 0;
+      state.firstViolationAt = now;
+    }
+
+    state.violations++;
+
+    if (state.violations < this.config.maxViolations) return;
+
+    const userName = this.room.playerInfo[playerId].userName;
+
+    switch (this.config.action) {
+      case 'drop':
+        break;
+      case 'warn':
+        this.room.sendPlayerStatusMessage(playerId, `* Your inputs are being dropped (${reason}).`);
+        this.room.logChatMessage(`* ${userName}'s inputs are being dropped (${reason})`);
+        break;
+      case 'kick':
+        this.room.kickPlayer(playerId, `input guard (${reason})`);
+        break;
+      case 'ban':
+        this.room.banPlayer(
+          playerId,
+          `Invalid inputs (${reason})`,
+          'input guard',
+          this.config.banDuration > 0 ? now + this.config.banDuration * 1000 : null,
+        );
+        break;
+    }
+  }
+
+  /**
+   * Forget the input state of a player who left the room.
+   */
+  forgetPlayer(playerId: number) {
+    delete this.states[playerId];
+  }
+}
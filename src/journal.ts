@@ -0,0 +1,158 @@
+import fs from 'fs';
+import moment from 'moment';
+
+import ManifoldRoom from './room';
+import { JournalEvent, JournalEventType } from './types';
+
+const journalFileName = 'events.jsonl';
+
+export const journalEventTypes: JournalEventType[] = [
+  'join',
+  'leave',
+  'chat',
+  'command',
+  'map_request',
+  'map_change',
+  'mode_change',
+  'host_transfer',
+  'kick',
+  'ban',
+  'unban',
+  'mute',
+  'unmute',
+  'game_start',
+  'return_to_lobby',
+  'map_vote',
+];
+
+export interface JournalQuery {
+  /**
+   * Only include events about this player.
+   */
+  player?: string;
+  /**
+   * Only include events of these types.
+   */
+  types?: JournalEventType[];
+  /**
+   * Only include events that happened at or after this time (UNIX timestamp in milliseconds).
+   */
+  since?: number;
+  /**
+   * Only include events that happened at or before this time (UNIX timestamp in milliseconds).
+   */
+  until?: number;
+  /**
+   * Only include the latest events, up to this amount.
+   */
+  limit?: number;
+}
+
+/**
+ * Append-only journal of room events, stored in the JSON Lines format (one JSON object per line). Events are written
+ * to disk as soon as they happen, so that they aren't lost if the server crashes. Once the journal file gets too big,
+ * it is rotated: renamed to include the time it was rotated at, after which a new journal file is started.
+ */
+export default class ManifoldJournal {
+  public room: ManifoldRoom;
+  public folder: string;
+  public fileSize: number = 0;
+
+  constructor(room: ManifoldRoom) {
+    this.room = room;
+    this.folder = room.getDataPath('journal');
+
+    if (fs.existsSync(this.filePath)) this.fileSize = fs.statSync(this.filePath).size;
+
+    this.removeOldFiles();
+  }
+
+  get filePath(): string {
+    return `${this.folder}/${journalFileName}`;
+  }
+
+  write(event: JournalEvent) {
+    if (!this.room.config.journal.enabled) return;
+
+    if (!fs.existsSync(this.folder)) fs.mkdirSync(this.folder, { recursive: true });
+
+    const line = JSON.stringify(event) + '\n';
+
+    fs.appendFileSync(this.filePath, line, { encoding: 'utf8' });
+    this.fileSize += Buffer.byteLength(line);
+
+    if (this.fileSize >= this.room.config.journal.maxFileSize * 1024) this.rotate();
+  }
+
+  /**
+   * Rename the current journal file to include the current time, so that the next event starts a new file.
+   */
+  rotate() {
+    if (!fs.existsSync(this.filePath)) return;
+
+    fs.renameSync(this.filePath, `${this.folder}/events-${moment().format('YYYY-MM-DD_HH-mm-ss-SSS')}.jsonl`);
+    this.fileSize = 0;
+
+    this.removeOldFiles();
+  }
+
+  /**
+   * Get the paths of every rotated journal file, from oldest to newest.
+   */
+  getRotatedFiles(): string[] {
+    if (!fs.existsSync(this.folder)) return [];
+
+    return fs
+      .readdirSync(this.folder)
+      .filter((file) => /^events-.+\.jsonl$/.test(file))
+      .sort()
+      .map((file) => `${this.folder}/${file}`);
+  }
+
+  /**
+   * Delete the rotated journal files that go beyond the `maxFiles` and `maxAge` limits set in the config.
+   */
+  removeOldFiles() {
+    const { maxFiles, maxAge } = this.room.config.journal;
+    const files = this.getRotatedFiles();
+
+    for (let i = 0; i < files.length; i++) {
+      const tooMany = maxFiles > 0 && i < files.length - maxFiles;
+      const tooOld = maxAge > 0 && Date.now() - fs.statSync(files[i]).mtimeMs > maxAge * 24 * 60 * 60 * 1000;
+
+      if (tooMany || tooOld) fs.unlinkSync(files[i]);
+    }
+  }
+
+  /**
+   * Read past events from every journal file of the room, from oldest to newest.
+   */
+  query(query: JournalQuery = {}): JournalEvent[] {
+    const files = [...this.getRotatedFiles(), this.filePath].filter((file) => fs.existsSync(file));
+    const events: JournalEvent[] = [];
+
+    for (const file of files) {
+      for (const line of fs.readFileSync(file, { encoding: 'utf8' }).split('\n')) {
+        if (!line) continue;
+
+        let event: JournalEvent;
+
+        // a line may be incomplete if the server crashed while writing it
+        try {
+          event = JSON.parse(line);
+        } catch {
+          continue;
+        }
+
+        if (query.player !== undefined && event.player !== query.player) continue;
+        if (query.types !== undefined && !query.types.includes(event.type)) continue;
+        if (query.since !== undefined && event.time < query.since) continue;
+        if (query.until !== undefined && event.time > query.until) continue;
+
+        events.push(event);
+      }
+    }
+
+    return query.limit !== undefined ? events.slice(-query.limit) : events;
+  }
+}
@@ -0,0 +1,95 @@
+import fs from 'fs';
+import crypto from 'crypto';
+
+import { MapVoteEntry } from './types';
+
+export interface MapVoteTally {
+  /**
+   * Amount of likes ("votes up").
+   */
+  vu: number;
+  /**
+   * Amount of dislikes ("votes down").
+   */
+  vd: number;
+}
+
+/**
+ * Persistent store of the votes players give to the maps played in a room. Every player (account) has one vote per
+ * map, which they can change at any time. Maps are told apart by a hash of their data, as the server doesn't decode
+ * maps; their names are learned from map requests and the playlist.
+ */
+export default class ManifoldMapVotes {
+  public filePath: string;
+  public maps: MapVoteEntry[] = [];
+
+  /**
+   * Names and authors of the maps seen since the server started (by map id), including maps that haven't been voted.
+   */
+  public knownNames: Map<string, { name: string; author: string | null }> = new Map();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+
+    if (fs.existsSync(this.filePath)) {
+      this.maps = JSON.parse(fs.readFileSync(this.filePath, { encoding: 'utf8' }));
+    }
+  }
+
+  save() {
+    fs.writeFileSync(this.filePath, JSON.stringify(this.maps), { encoding: 'utf8' });
+  }
+
+  static getMapId(map: string): string {
+    return crypto.createHash('sha1').update(map).digest('hex').slice(0, 16);
+  }
+
+  get(map: string): MapVoteEntry | undefined {
+    const id = ManifoldMapVotes.getMapId(map);
+
+    return this.maps.find((entry) => entry.id === id);
+  }
+
+  /**
+   * Record the vote of a player on a map, replacing their previous vote on it (if any).
+   */
+  vote(map: string, username: string, vote: 1 | -1) {
+    let entry = this.get(map);
+
+    if (!entry) {
+      const id = ManifoldMapVotes.getMapId(map);
+      const known = this.knownNames.get(id);
+
+      entry = { id, name: known?.name ?? null, author: known?.author ?? null, votes: {} };
+      this.maps.push(entry);
+    }
+
+    entry.votes[username] = vote;
+
+    this.save();
+  }
+
+  /**
+   * Remember the name and author of a map, so that its votes can be shown along with them.
+   */
+  setMapName(map: string, name: string, author: string | null) {
+    this.knownNames.set(ManifoldMapVotes.getMapId(map), { name, author });
+
+    const entry = this.get(map);
+    if (!entry || (entry.name === name && entry.author === author)) return;
+
+    entry.name = name;
+    entry.author = author;
+
+    this.save();
+  }
+
+  static tally(entry: MapVoteEntry | undefined): MapVoteTally {
+    const votes = Object.values(entry?.votes ?? {});
+
+    return {
+      vu: votes.filter((vote) => vote == 1).length,
+      vd: votes.filter((vote) => vote == -1).length,
+    };
+  }
+}
@@ -0,0 +1,156 @@
+import express from 'express';
+
+import ManifoldServer from './server';
+import ManifoldRoom from './room';
+import ManifoldBanList from './banList';
+import * as IN from './inPacketIds';
+import { safeCompare } from './utils';
+
+/**
+ * Metrics shown at `/metrics`, by name. Every metric is labeled with the id of the room it belongs to.
+ */
+const metricDefinitions = {
+  manifold_players: { type: 'gauge', help: 'Players currently in the room.' },
+  manifold_join_attempts_total: { type: 'counter', help: 'Join requests received by the room.' },
+  manifold_join_rejections_total: {
+    type: 'counter',
+    help: 'Join requests turned down by the room, by the error message sent to the player.',
+  },
+  manifold_ratelimit_hits_total: { type: 'counter', help: 'Actions blocked by a ratelimit, by ratelimit.' },
+  manifold_packets_received_total: {
+    type: 'counter',
+    help: 'Packets received from players, by packet id. Use rate() to get packets per second.',
+  },
+  manifold_games_started_total: { type: 'counter', help: 'Games started in the room.' },
+  manifold_game_length_seconds: {
+    type: 'summary',
+    help: 'Length of the games played in the room. Divide the sum by the count to get the average game length.',
+  },
+  manifold_chat_messages_total: { type: 'counter', help: 'Chat messages sent to the room by players.' },
+} as const;
+
+export type MetricName = keyof typeof metricDefinitions;
+
+/**
+ * Metrics that every room has from the start, so that they show up as 0 instead of missing.
+ */
+const roomMetrics: MetricName[] = [
+  'manifold_join_attempts_total',
+  'manifold_games_started_total',
+  'manifold_game_length_seconds',
+  'manifold_chat_messages_total',
+];
+
+const knownPacketIds: string[] = Object.values(IN);
+
+/**
+ * Prometheus-style metrics of every room, served at `/metrics` in the Prometheus text format. Access is restricted to
+ * the addresses allowed in the config and to requests that include the metrics token in an
+ * `Authorization: Bearer {token}` header.
+ */
+export default class ManifoldMetrics {
+  public server: ManifoldServer;
+
+  /**
+   * Values of every time series, by series name (such as `manifold_game_length_seconds_sum`) and then by labels.
+   */
+  public values: Record<string, Record<string, number>> = {};
+
+  constructor(server: ManifoldServer) {
+    this.server = server;
+
+    for (const room of this.server.rooms) {
+      for (const name of roomMetrics) {
+        for (const series of ManifoldMetrics.getSeriesNames(name)) {
+          this.add(series, ManifoldMetrics.formatLabels({ room: room.id }), 0);
+        }
+      }
+    }
+
+    this.server.expressApp.get('/metrics', (req, res) => {
+      if (!this.isAllowed(req)) {
+        res.status(401).type('text/plain').send('Invalid or missing metrics token.');
+        return;
+      }
+
+      res.type('text/plain; version=0.0.4').send(this.render());
+    });
+  }
+
+  get config() {
+    return this.server.config.metrics;
+  }
+
+  isAllowed(req: express.Request): boolean {
+    const address = req.socket.remoteAddress ?? '';
+    if (this.config.allowedAddresses.some((allowed) => ManifoldBanList.addressMatches(allowed, address))) return true;
+
+    const providedToken = req.headers.authorization?.replace(/^Bearer /, '') ?? '';
+    return !!this.config.token && safeCompare(providedToken, this.config.token);
+  }
+
+  /**
+   * Add to a counter, or add an observation to a summary (in which case `amount` is the observed value).
+   */
+  record(name: MetricName, room: ManifoldRoom, labels: Record<string, string> = {}, amount: number = 1) {
+    const labelString = ManifoldMetrics.formatLabels({ room: room.id, ...labels });
+
+    if (metricDefinitions[name].type == 'summary') {
+      this.add(`${name}_sum`, labelString, amount);
+      this.add(`${name}_count`, labelString, 1);
+    } else {
+      this.add(name, labelString, amount);
+    }
+  }
+
+  /**
+   * Count a packet received from a player. Packet ids that don't exist are counted together, so that players can't
+   * make up new time series.
+   */
+  recordPacket(room: ManifoldRoom, packetId: string) {
+    this.record('manifold_packets_received_total', room, {
+      packet: knownPacketIds.includes(packetId) ? packetId : 'unknown',
+    });
+  }
+
+  private add(series: string, labelString: string, amount: number) {
+    this.values[series] ??= {};
+    this.values[series][labelString] = (this.values[series][labelString] ?? 0) + amount;
+  }
+
+  render(): string {
+    const lines: string[] = [];
+
+    for (const [name, definition] of Object.entries(metricDefinitions)) {
+      lines.push(`# HELP ${name} ${definition.help}`, `# TYPE ${name} ${definition.type}`);
+
+      if (name == 'manifold_players') {
+        for (const room of this.server.rooms) {
+          lines.push(`${name}{${ManifoldMetrics.formatLabels({ room: room.id })}} ${room.playerAmount}`);
+        }
+        continue;
+      }
+
+      for (const series of ManifoldMetrics.getSeriesNames(name as MetricName)) {
+        for (const [labelString, value] of Object.entries(this.values[series] ?? {})) {
+          lines.push(`${series}{${labelString}} ${value}`);
+        }
+      }
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Get the names of the time series of a metric. Summaries are made of a sum and a count.
+   */
+  static getSeriesNames(name: MetricName): string[] {
+    return metricDefinitions[name].type == 'summary' ? [`${name}_sum`, `${name}_count`] : [name];
+  }
+
+  static formatLabels(labels: Record<string, string>): string {
+    return Object.entries(labels)
+      .map(([key, value]) => `${key}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`)
+      .join(',');
+  }
+}
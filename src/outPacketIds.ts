@@ -31,6 +31,8 @@ export const TOGGLE_TEAMS = '39';
 export const TRANSFER_HOST = '41';
 export const SEND_COUNTDOWN_STARTING = '43';
 export const SEND_COUNTDOWN_ABORTED = '44';
+export const CHANGE_ROOM_NAME = '58';
+export const CHANGE_ROOM_PASSWORD = '59';
 
 /* #endregion LOBBY ACTIONS (BOTH HOST AND NON-HOST) */
 
@@ -40,6 +42,9 @@ export const SEND_INPUTS = '7';
 export const START_GAME = '15';
 export const RETURN_TO_LOBBY = '13';
 export const SAVE_REPLAY = '40';
+export const MAP_VOTES = '38';
+export const PLAYER_LEVELED_UP = '45';
+export const GAINED_XP = '46';
 
 /* #endregion IN-GAME ACTIONS */
 
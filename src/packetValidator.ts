@@ -0,0 +1,241 @@
+import socketIO from 'socket.io';
+
+import ManifoldRoom from './room';
+import * as IN from './inPacketIds';
+
+/**
+ * Expected format of a value sent by a player.
+ *
+ * - `playerId`: the id of a player who is in the room.
+ * - `team`: a team number, from 0 (spectating) to 5 (yellow).
+ * - `any`: anything, as long as it's present.
+ */
+export type FieldSchema = (
+  | { type: 'string'; maxLength?: number }
+  | { type: 'number'; integer?: boolean; min?: number; max?: number }
+  | { type: 'boolean' }
+  | { type: 'array'; maxLength?: number }
+  | { type: 'object'; fields?: Record<string, FieldSchema> }
+  | { type: 'playerId' }
+  | { type: 'team' }
+  | { type: 'any' }
+  | { anyOf: FieldSchema[] }
+) & { optional?: boolean };
+
+/**
+ * Expected format of the data of a packet. Packets whose data is ignored by the server have a schema of `null`.
+ */
+export type PacketSchema = Record<string, FieldSchema> | null;
+
+const gameSettingsSchema: FieldSchema = {
+  type: 'object',
+  fields: {
+    map: { type: 'string', maxLength: 100000 },
+    wl: { type: 'number', integer: true, min: 1, max: 100 },
+    q: { type: 'boolean' },
+    tl: { type: 'boolean' },
+    tea: { type: 'boolean' },
+    ga: { type: 'string', maxLength: 50 },
+    mo: { type: 'string', maxLength: 50 },
+    bal: { type: 'array', maxLength: 1000 },
+    gt: { type: 'number', integer: true, min: 1, max: 2 },
+  },
+};
+
+/**
+ * Schemas of every packet that players can send, by packet id.
+ */
+const packetSchemas: Record<string, PacketSchema> = {
+  [IN.JOIN_REQUEST]: {
+    userName: { type: 'string', maxLength: 100 },
+    guest: { type: 'boolean' },
+    // levels are checked further by the join restrictions
+    level: { anyOf: [{ type: 'number' }, { type: 'string', maxLength: 10 }] },
+    avatar: {
+      type: 'object',
+      fields: {
+        layers: { type: 'array', maxLength: 16 },
+        bc: { type: 'number' },
+      },
+    },
+    roomPassword: { type: 'string', maxLength: 100, optional: true },
+  },
+  [IN.HOST_INFORM_IN_LOBBY]: { sid: { type: 'playerId' }, gs: gameSettingsSchema },
+  [IN.HOST_INFORM_IN_GAME]: { sid: { type: 'playerId' }, allData: { type: 'any' } },
+
+  [IN.CHANGE_OWN_TEAM]: { targetTeam: { type: 'team' } },
+  [IN.CHAT_MESSAGE]: { message: { type: 'string', maxLength: 1000 } },
+  [IN.SET_READY]: { ready: { type: 'boolean' } },
+  [IN.MAP_REQUEST]: {
+    m: { type: 'string', maxLength: 100000 },
+    mapname: { type: 'string', maxLength: 100 },
+    mapauthor: { type: 'string', maxLength: 100 },
+  },
+  [IN.FRIEND_REQUEST]: { id: { type: 'playerId' } },
+  [IN.SET_TABBED]: { out: { type: 'boolean' } },
+  [IN.VOTE_MAP]: { i: { type: 'number', integer: true, min: 0, max: 1 } },
+  [IN.GET_MAP_VOTES]: null,
+  [IN.REQUEST_XP]: null,
+
+  [IN.LOCK_TEAMS]: { teamLock: { type: 'boolean' } },
+  [IN.KICK_BAN_PLAYER]: { banshortid: { type: 'playerId' }, kickonly: { type: 'boolean' } },
+  [IN.CHANGE_MODE]: { ga: { type: 'string', maxLength: 50 }, mo: { type: 'string', maxLength: 50 } },
+  [IN.CHANGE_ROUNDS]: { w: { type: 'number', integer: true, min: 1, max: 100 } },
+  [IN.CHANGE_MAP]: { m: { type: 'string', maxLength: 100000 } },
+  [IN.CHANGE_OTHER_TEAM]: { targetID: { type: 'playerId' }, targetTeam: { type: 'team' } },
+  [IN.CHANGE_BALANCE]: { sid: { type: 'playerId' }, bal: { type: 'number', integer: true, min: -100, max: 100 } },
+  [IN.TOGGLE_TEAMS]: { t: { type: 'boolean' } },
+  [IN.TRANSFER_HOST]: { id: { type: 'playerId' } },
+  [IN.SEND_COUNTDOWN_STARTING]: { num: { type: 'number', integer: true, min: 0, max: 10 } },
+  [IN.SEND_COUNTDOWN_ABORTED]: null,
+  [IN.NO_HOST_SWAP]: null,
+  [IN.CHANGE_ROOM_NAME]: { newName: { type: 'string', maxLength: 100 } },
+  [IN.CHANGE_ROOM_PASSWORD]: { newPass: { type: 'string', maxLength: 100 } },
+
+  [IN.SEND_INPUTS]: {
+    i: { type: 'number', integer: true, min: 0, max: 63 },
+    f: { type: 'number', integer: true, min: 0 },
+    c: { type: 'number', integer: true, min: 0, optional: true },
+  },
+  [IN.START_GAME]: { is: { type: 'any' }, gs: gameSettingsSchema },
+  [IN.RETURN_TO_LOBBY]: null,
+  [IN.SAVE_REPLAY]: null,
+};
+
+/**
+ * Checks every packet sent by players against the schema of its packet id before it reaches its handler, dropping
+ * the packets that don't match it. Players who keep sending invalid packets are disconnected, as that only happens
+ * with modified clients.
+ */
+export default class ManifoldPacketValidator {
+  public room: ManifoldRoom;
+
+  /**
+   * Invalid packets recently sent by each socket (by socket id).
+   */
+  public offenses: Record<string, { count: number; firstOffenseAt: number }> = {};
+
+  constructor(room: ManifoldRoom) {
+    this.room = room;
+  }
+
+  get config() {
+    return this.room.config.restrictions.packetValidation;
+  }
+
+  /**
+   * Check a packet received from a socket. Returns `true` if the packet is valid and should be handled.
+   */
+  checkPacket(socket: socketIO.Socket, packetId: string, data: unknown): boolean {
+    if (!this.config.enabled) return true;
+
+    const error = this.validatePacket(packetId, data);
+    if (!error) return true;
+
+    this.addOffense(socket, `packet ${packetId}: ${error}`);
+    return false;
+  }
+
+  /**
+   * Check the data of a packet against the schema of its packet id, without counting it as an offense. Returns a
+   * description of the first problem found, or `null` if there are none.
+   */
+  validatePacket(packetId: string, data: unknown): string | null {
+    // packets without a schema don't have a handler either, so there's nothing to protect
+    const schema = packetSchemas[packetId];
+    if (schema === undefined || schema === null) return null;
+
+    return this.validateFields(schema, data, 'data');
+  }
+
+  /**
+   * Count an invalid packet sent by a socket, disconnecting it if it has sent too many of them.
+   */
+  addOffense(socket: socketIO.Socket, reason: string) {
+    const now = Date.now();
+    let offense = this.offenses[socket.id];
+
+    if (!offense || now - offense.firstOffenseAt > this.config.timeframe * 1000) {
+      offense = this.offenses[socket.id] = { count: 0, firstOffenseAt: now };
+    }
+
+    offense.count++;
+
+    if (this.config.logInvalidPackets) {
+      console.log(`[${this.room.id}] Dropped invalid packet from ${socket.handshake.address} (${reason})`);
+    }
+
+    if (this.config.maxInvalidPackets <= 0 || offense.count < this.config.maxInvalidPackets) return;
+
+    delete this.offenses[socket.id];
+
+    if (socket.data.bonkId !== undefined) {
+      this.room.kickPlayer(socket.data.bonkId, 'packet validation');
+    } else {
+      socket.disconnect();
+    }
+  }
+
+  /**
+   * Forget the offenses of a socket that disconnected.
+   */
+  forgetSocket(socket: socketIO.Socket) {
+    delete this.offenses[socket.id];
+  }
+
+  /**
+   * Check an object against a set of field schemas. Returns a description of the first problem found, or `null` if
+   * there are none.
+   */
+  validateFields(fields: Record<string, FieldSchema>, data: unknown, path: string): string | null {
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) return `${path} is not an object`;
+
+    for (const key in fields) {
+      const error = this.validateValue(fields[key], (data as Record<string, unknown>)[key], `${path}.${key}`);
+      if (error) return error;
+    }
+
+    return null;
+  }
+
+  validateValue(schema: FieldSchema, value: unknown, path: string): string | null {
+    if (value === undefined || value === null) return schema.optional ? null : `${path} is missing`;
+
+    if ('anyOf' in schema) {
+      const matches = schema.anyOf.some((option) => !this.validateValue(option, value, path));
+      return matches ? null : `${path} is not in a valid format`;
+    }
+
+    switch (schema.type) {
+      case 'string':
+        if (typeof value !== 'string') return `${path} is not a string`;
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) return `${path} is too long`;
+        break;
+      case 'number':
+        if (typeof value !== 'number' || !Number.isFinite(value)) return `${path} is not a number`;
+        if (schema.integer && !Number.isInteger(value)) return `${path} is not an integer`;
+        if (schema.min !== undefined && value < schema.min) return `${path} is too small`;
+        if (schema.max !== undefined && value > schema.max) return `${path} is too big`;
+        break;
+      case 'boolean':
+        if (typeof value !== 'boolean') return `${path} is not a boolean`;
+        break;
+      case 'array':
+        if (!Array.isArray(value)) return `${path} is not an array`;
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) return `${path} is too long`;
+        break;
+      case 'object':
+        return this.validateFields(schema.fields ?? {}, value, path);
+      case 'playerId':
+        if (!Number.isInteger(value) || !this.room.playerInfo[value as number]) return `${path} is not a player id`;
+        break;
+      case 'team':
+        if (!Number.isInteger(value) || (value as number) < 0 || (value as number) > 5) {
+          return `${path} is not a team`;
+        }
+        break;
+    }
+
+    return null;
+  }
+}
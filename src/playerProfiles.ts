@@ -0,0 +1,88 @@
+import fs from 'fs';
+
+import { PlayerProfile } from './types';
+
+/**
+ * How long to wait (in milliseconds) before writing changed profiles to disk. Profiles change with every chat message,
+ * so changes are batched instead of saving the whole file every time.
+ */
+const saveDelay = 5000;
+
+/**
+ * Persistent store of player profiles and statistics, keyed by username. Guests and accounts with the same username
+ * have separate profiles.
+ */
+export default class ManifoldPlayerProfiles {
+  public filePath: string;
+  public profiles: PlayerProfile[] = [];
+  public saveTimeout?: NodeJS.Timeout;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+
+    if (fs.existsSync(this.filePath)) {
+      this.profiles = JSON.parse(fs.readFileSync(this.filePath, { encoding: 'utf8' }));
+    }
+
+    // profiles saved by older versions don't have XP
+    for (const profile of this.profiles) {
+      profile.xp ??= 0;
+      profile.dailyXp ??= { date: '', amount: 0 };
+    }
+  }
+
+  save() {
+    clearTimeout(this.saveTimeout);
+    this.saveTimeout = undefined;
+
+    fs.writeFileSync(this.filePath, JSON.stringify(this.profiles), { encoding: 'utf8' });
+  }
+
+  /**
+   * Save the profiles after a short delay, unless a save is already scheduled.
+   */
+  scheduleSave() {
+    this.saveTimeout ??= setTimeout(() => this.save(), saveDelay);
+  }
+
+  get(username: string, guest: boolean): PlayerProfile | undefined {
+    return this.profiles.find((profile) => profile.username === username && profile.guest === guest);
+  }
+
+  /**
+   * Get the profile of a player, creating it if it doesn't exist yet.
+   */
+  getOrCreate(username: string, guest: boolean): PlayerProfile {
+    let profile = this.get(username, guest);
+
+    if (!profile) {
+      profile = {
+        username,
+        guest,
+        firstSeen: Date.now(),
+        lastSeen: Date.now(),
+        playtime: 0,
+        joins: 0,
+        gamesPlayed: 0,
+        messagesSent: 0,
+        timesKicked: 0,
+        timesBanned: 0,
+        addresses: [],
+        xp: 0,
+        dailyXp: { date: '', amount: 0 },
+      };
+
+      this.profiles.push(profile);
+    }
+
+    return profile;
+  }
+
+  /**
+   * Change the profile of a player, creating it if it doesn't exist yet.
+   */
+  update(username: string, guest: boolean, changes: (profile: PlayerProfile) => void) {
+    changes(this.getOrCreate(username, guest));
+    this.scheduleSave();
+  }
+}
@@ -0,0 +1,110 @@
+import fs from 'fs';
+
+import ManifoldRoom from './room';
+import { PlaylistEntry } from './types';
+
+/**
+ * List of maps stored by the server that a room rotates through, changing the map on its own every time the room
+ * returns to the lobby (if `playlist.autoAdvance` is enabled in the config). The playlist is saved to the
+ * `playlist.json` file of the room.
+ */
+export default class ManifoldPlaylist {
+  public room: ManifoldRoom;
+  public filePath: string;
+  public entries: PlaylistEntry[] = [];
+
+  /**
+   * Index of the entry that was played last, or -1 if no entry has been played yet.
+   */
+  public position: number = -1;
+
+  constructor(room: ManifoldRoom) {
+    this.room = room;
+    this.filePath = room.getDataPath('playlist.json');
+
+    if (fs.existsSync(this.filePath)) {
+      const data = JSON.parse(fs.readFileSync(this.filePath, { encoding: 'utf8' }));
+
+      this.entries = data.entries;
+      this.position = data.position;
+    }
+
+    for (const entry of this.entries) room.mapVotes.setMapName(entry.map, entry.name, null);
+  }
+
+  save() {
+    fs.writeFileSync(this.filePath, JSON.stringify({ entries: this.entries, position: this.position }), {
+      encoding: 'utf8',
+    });
+  }
+
+  add(entry: PlaylistEntry) {
+    this.entries.push(entry);
+    this.save();
+
+    this.room.mapVotes.setMapName(entry.map, entry.name, null);
+  }
+
+  remove(index: number): PlaylistEntry {
+    const [entry] = this.entries.splice(index, 1);
+
+    // keep pointing at the same entry, so that the rotation continues where it was
+    if (index < this.position) this.position--;
+    else if (index == this.position) this.position = index - 1;
+
+    this.save();
+    return entry;
+  }
+
+  move(from: number, to: number) {
+    const [entry] = this.entries.splice(from, 1);
+    this.entries.splice(to, 0, entry);
+
+    if (this.position == from) {
+      this.position = to;
+    } else if (from < this.position && to >= this.position) {
+      this.position--;
+    } else if (from > this.position && to <= this.position) {
+      this.position++;
+    }
+
+    this.save();
+  }
+
+  /**
+   * Get the index of the entry that should be played next, according to the order set in the config.
+   */
+  getNextIndex(): number {
+    if (this.room.config.playlist.order == 'shuffle' && this.entries.length > 1) {
+      if (this.position < 0) return Math.floor(Math.random() * this.entries.length);
+
+      // pick any entry but the current one
+      const index = Math.floor(Math.random() * (this.entries.length - 1));
+      return index >= this.position ? index + 1 : index;
+    }
+
+    return (this.position + 1) % this.entries.length;
+  }
+
+  /**
+   * Change the room's map to an entry of the playlist.
+   */
+  play(index: number) {
+    const entry = this.entries[index];
+
+    this.position = index;
+    this.save();
+
+    this.room.changeMap(entry.map);
+    this.room.sendChatStatusMessage(`* The map has been changed to ${entry.name} (playlist).`);
+  }
+
+  /**
+   * Change the room's map to the next entry of the playlist, if the playlist is enabled and not empty.
+   */
+  advance() {
+    if (!this.room.config.playlist.autoAdvance || this.entries.length == 0) return;
+
+    this.play(this.getNextIndex());
+  }
+}
@@ -0,0 +1,321 @@
+import fs from 'fs';
+import path from 'node:path';
+
+import ManifoldServer from './server';
+import ManifoldRoom from './room';
+import ManifoldTerminal, { registerTerminalCommand } from './terminal';
+import * as actions from './adminActions';
+import { AdminActionError } from './adminActions';
+import { registerChatCommand } from './chatCommands';
+import { ChatCommand, Config, GameSettings, TerminalCommand } from './types';
+
+/**
+ * What a hook that can reject an action returns. `false` rejects the action, and a string rejects it with that string
+ * as the reason. Anything else lets the action go on.
+ */
+export type PluginHookResult = void | boolean | string;
+
+export interface PluginJoinEvent {
+  /**
+   * Id of the room the event happened in.
+   */
+  room: string;
+  address: string;
+  /**
+   * Username the player is joining with. Changes made by `beforeJoin` hooks go through the usual username checks.
+   */
+  userName: string;
+  guest: boolean;
+  level: number;
+}
+
+export interface PluginPlayerEvent {
+  room: string;
+  playerId: number;
+  userName: string;
+}
+
+export interface PluginChatEvent extends PluginPlayerEvent {
+  /**
+   * The message sent by the player. Changes made by `beforeChat` hooks are what the room gets to see, after going
+   * through the chat filter.
+   */
+  message: string;
+}
+
+export interface PluginMapChangeEvent {
+  room: string;
+  /**
+   * Id of the player who changed the map, or `null` if the server changed it (such as through the playlist).
+   */
+  playerId: number | null;
+  /**
+   * The new map, in its encoded form.
+   */
+  map: string;
+}
+
+export interface PluginGameStartEvent extends PluginPlayerEvent {
+  gameSettings: GameSettings;
+  /**
+   * Usernames of the players taking part in the game (spectators aren't included).
+   */
+  players: string[];
+}
+
+export interface PluginPacketEvent {
+  room: string;
+  /**
+   * Id of the player who sent the packet, or `null` if they haven't joined the room yet.
+   */
+  playerId: number | null;
+  packetId: string;
+  /**
+   * Data sent with the packet, which `onPacket` hooks can change before the packet is handled. The data hasn't been
+   * validated yet, so it can be anything.
+   */
+  data: unknown;
+}
+
+/**
+ * Hooks that plugins can register. Hooks starting with "before", as well as `onPacket`, run before the action takes
+ * place and can change it (by changing the event) or reject it (see `PluginHookResult`). The rest run after the action
+ * took place.
+ */
+export interface PluginHooks {
+  /**
+   * Runs when a player tries to join, after the ban, ratelimit and closed room checks. Rejection reasons are sent to
+   * the player as a join error.
+   */
+  beforeJoin: (event: PluginJoinEvent) => PluginHookResult;
+  onJoin: (event: PluginPlayerEvent) => void;
+  onLeave: (event: PluginPlayerEvent) => void;
+  /**
+   * Runs when a player sends a chat message (other than a chat command). Rejection reasons are shown to the player.
+   */
+  beforeChat: (event: PluginChatEvent) => PluginHookResult;
+  onMapChange: (event: PluginMapChangeEvent) => void;
+  onGameStart: (event: PluginGameStartEvent) => void;
+  /**
+   * Runs for every packet received from a player, before the packet is validated (so changed packets are validated
+   * too). Rejected packets are dropped.
+   */
+  onPacket: (event: PluginPacketEvent) => PluginHookResult;
+}
+
+export type PluginHookName = keyof PluginHooks;
+
+export interface ManifoldPlugin {
+  name: string;
+  description?: string;
+  /**
+   * Function called once the plugin is loaded, which registers the plugin's hooks and commands through the API.
+   */
+  setup: (api: ManifoldPluginApi) => void;
+}
+
+/**
+ * API given to each plugin. Rooms are referred to by their id and players by their username or id, and every action
+ * throws an `AdminActionError` describing what went wrong if it can't be done.
+ */
+export class ManifoldPluginApi {
+  private plugins: ManifoldPlugins;
+  public pluginName: string;
+
+  constructor(plugins: ManifoldPlugins, pluginName: string) {
+    this.plugins = plugins;
+    this.pluginName = pluginName;
+  }
+
+  on<T extends PluginHookName>(hook: T, handler: PluginHooks[T]) {
+    this.plugins.hooks[hook].push({ pluginName: this.pluginName, handler });
+  }
+
+  /**
+   * Add a command to the terminal. Errors other than `AdminActionError`s thrown by the command are logged instead of
+   * stopping the terminal.
+   */
+  registerCommand(name: string, command: TerminalCommand) {
+    registerTerminalCommand(name, {
+      ...command,
+      callback: (cmd, room) => {
+        try {
+          command.callback(cmd, room);
+        } catch (error) {
+          if (error instanceof AdminActionError) throw error;
+          this.log(`The "${name}" command failed: ${error}`);
+        }
+      },
+    });
+  }
+
+  /**
+   * Add a command to the chat commands. Errors other than `AdminActionError`s thrown by the command are logged, and
+   * the player is told that the command failed.
+   */
+  registerChatCommand(name: string, command: ChatCommand) {
+    registerChatCommand(name, {
+      ...command,
+      callback: (args, playerId, room) => {
+        try {
+          command.callback(args, playerId, room);
+        } catch (error) {
+          if (error instanceof AdminActionError) throw error;
+          this.log(`The "${name}" chat command failed: ${error}`);
+          room.sendPlayerStatusMessage(playerId, 'Something went wrong while running this command.');
+        }
+      },
+    });
+  }
+
+  log(message: string) {
+    ManifoldTerminal.consoleLog(`[${this.pluginName}] ${message}`);
+  }
+
+  getRooms(): string[] {
+    return this.plugins.server.rooms.map((room) => room.id);
+  }
+
+  getConfig(roomId: string): Readonly<Config> {
+    return this.getRoom(roomId).config;
+  }
+
+  getPlayers(roomId: string) {
+    return actions.getPlayers(this.getRoom(roomId));
+  }
+
+  /**
+   * Send a status message to everyone in a room, or only to a specific player.
+   */
+  sendMessage(roomId: string, message: string, target?: string | number) {
+    const room = this.getRoom(roomId);
+
+    if (target === undefined) {
+      room.sendChatStatusMessage(message);
+    } else {
+      room.sendPlayerStatusMessage(actions.resolvePlayer(room, target), message);
+    }
+  }
+
+  kick(roomId: string, target: string | number): string {
+    return actions.kickPlayer(this.getRoom(roomId), target, this.pluginName);
+  }
+
+  transferHost(roomId: string, target?: string | number): string {
+    return actions.transferHost(this.getRoom(roomId), target);
+  }
+
+  movePlayer(roomId: string, target: string | number, team: string): string {
+    return actions.movePlayer(this.getRoom(roomId), target, team);
+  }
+
+  setRoomName(roomId: string, name?: string): string {
+    return actions.setRoomName(this.getRoom(roomId), name);
+  }
+
+  setRoomPassword(roomId: string, password?: string | null): string {
+    return actions.setRoomPassword(this.getRoom(roomId), password);
+  }
+
+  /**
+   * Change the map of a room. The map must be in its encoded form.
+   */
+  changeMap(roomId: string, map: string) {
+    this.getRoom(roomId).changeMap(map);
+  }
+
+  private getRoom(roomId: string): ManifoldRoom {
+    const room = this.plugins.server.getRoom(roomId);
+    if (!room) throw new AdminActionError(`${roomId} is not a valid room id.`, 404);
+
+    return room;
+  }
+}
+
+/**
+ * Plugins loaded from the plugins directory (`plugins` by default). Each file in the directory is a module whose
+ * default export is a `ManifoldPlugin`. Rooms run the hooks registered by plugins through `runHook`.
+ */
+export default class ManifoldPlugins {
+  public server: ManifoldServer;
+
+  public loadedPlugins: ManifoldPlugin[] = [];
+  public hooks: { [T in PluginHookName]: { pluginName: string; handler: PluginHooks[T] }[] } = {
+    beforeJoin: [],
+    onJoin: [],
+    onLeave: [],
+    beforeChat: [],
+    onMapChange: [],
+    onGameStart: [],
+    onPacket: [],
+  };
+
+  constructor(server: ManifoldServer) {
+    this.server = server;
+  }
+
+  get config() {
+    return this.server.config.plugins;
+  }
+
+  /**
+   * Load every plugin in the plugins directory. Plugins that fail to load are skipped.
+   */
+  load() {
+    if (!this.config.enabled || !fs.existsSync(this.config.directory)) return;
+
+    const files = fs
+      .readdirSync(this.config.directory)
+      .filter((file) => /\.(js|ts)$/.test(file) && !file.endsWith('.d.ts'))
+      .sort();
+
+    for (const file of files) {
+      try {
+        const pluginModule = require(path.resolve(this.config.directory, file));
+        const plugin: ManifoldPlugin = pluginModule.default ?? pluginModule;
+
+        if (typeof plugin?.setup !== 'function') throw new Error('the module has no setup function');
+
+        plugin.name ??= path.parse(file).name;
+        plugin.setup(new ManifoldPluginApi(this, plugin.name));
+
+        this.loadedPlugins.push(plugin);
+      } catch (error) {
+        ManifoldTerminal.consoleLog(
+          `Plugin "${file}" could not be loaded: ${error instanceof Error ? error.message : error}`,
+        );
+      }
+    }
+
+    if (this.loadedPlugins.length > 0) {
+      ManifoldTerminal.consoleLog(
+        `Loaded ${this.loadedPlugins.length} plugin(s): ${this.loadedPlugins.map((i) => i.name).join(', ')}`,
+      );
+    }
+  }
+
+  /**
+   * Run every handler of a hook. Returns whether a handler rejected the action, and the reason given, if any.
+   * Handlers that throw are logged and skipped.
+   */
+  runHook<T extends PluginHookName>(
+    hook: T,
+    event: Parameters<PluginHooks[T]>[0],
+  ): { rejected: boolean; reason?: string } {
+    for (const { pluginName, handler } of this.hooks[hook]) {
+      let result: PluginHookResult;
+
+      try {
+        result = (handler as (event: Parameters<PluginHooks[T]>[0]) => PluginHookResult)(event);
+      } catch (error) {
+        ManifoldTerminal.consoleLog(`Plugin "${pluginName}" failed while running ${hook}: ${error}`);
+        continue;
+      }
+
+      if (result === false) return { rejected: true };
+      if (typeof result === 'string') return { rejected: true, reason: result };
+    }
+
+    return { rejected: false };
+  }
+}
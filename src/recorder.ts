@@ -0,0 +1,133 @@
+import fs from 'fs';
+import moment from 'moment';
+
+import ManifoldRoom from './room';
+import { GameRecording, GameSettings, RecordingEvent } from './types';
+
+/**
+ * Version of the recording format, stored in every recording.
+ */
+export const recordingVersion = 1;
+
+/**
+ * Records the games played in a room, from the moment the host starts a game to the moment the room returns to the
+ * lobby. Each recording is saved as a JSON file in the `recordings` folder of the room.
+ */
+export default class ManifoldRecorder {
+  public room: ManifoldRoom;
+  public folder: string;
+
+  /**
+   * The game currently being recorded, if any.
+   */
+  public recording: GameRecording | null = null;
+
+  constructor(room: ManifoldRoom) {
+    this.room = room;
+    this.folder = room.getDataPath('recordings');
+  }
+
+  /**
+   * Start recording a game. If a game was already being recorded, it's saved first.
+   */
+  start(initialState: unknown, gameSettings: GameSettings) {
+    this.stop();
+
+    if (!this.room.config.recordings.enabled) return;
+
+    this.recording = {
+      version: recordingVersion,
+      roomId: this.room.id,
+      startedAt: this.room.gameStartTime,
+      endedAt: null,
+      gameSettings: structuredClone(gameSettings),
+      initialState: structuredClone(initialState),
+      players: [],
+      events: [],
+    };
+
+    for (let i = 0; i < this.room.playerInfo.length; i++) {
+      const player = this.room.playerInfo[i];
+      if (!player) continue;
+
+      this.recording.players.push({
+        id: i,
+        userName: player.userName,
+        guest: player.guest,
+        level: player.level,
+        team: player.team,
+      });
+    }
+  }
+
+  /**
+   * Stop recording the current game, if any, and save it.
+   */
+  stop() {
+    if (!this.recording) return;
+
+    this.recording.endedAt = Date.now();
+    this.save(this.recording);
+    this.recording = null;
+  }
+
+  recordEvent(type: RecordingEvent['type'], playerId: number, data?: unknown) {
+    if (!this.recording) return;
+
+    const time = Date.now() - this.recording.startedAt;
+
+    // bonk runs at 30 ticks per second
+    this.recording.events.push({ time, tick: Math.round(time / (1000 / 30)), type, playerId, data });
+  }
+
+  save(recording: GameRecording) {
+    if (!fs.existsSync(this.folder)) fs.mkdirSync(this.folder, { recursive: true });
+
+    // a counter is added to the name if it's already taken, so that recordings never overwrite each other. names stay
+    // sorted from oldest to newest
+    const baseName = `game-${moment(recording.startedAt).format('YYYY-MM-DD_HH-mm-ss-SSS')}`;
+    let name = baseName;
+
+    for (let i = 2; fs.existsSync(this.getRecordingPath(name)); i++) name = `${baseName}_${i}`;
+
+    fs.writeFileSync(this.getRecordingPath(name), JSON.stringify(recording), { encoding: 'utf8' });
+
+    // delete the oldest recordings if there are too many
+    const maxRecordings = this.room.config.recordings.maxRecordings;
+    const names = this.getRecordingNames();
+
+    if (maxRecordings > 0 && names.length > maxRecordings) {
+      for (const name of names.slice(0, names.length - maxRecordings)) this.delete(name);
+    }
+  }
+
+  /**
+   * Get the names of every saved recording (their file names without the extension), from oldest to newest.
+   */
+  getRecordingNames(): string[] {
+    if (!fs.existsSync(this.folder)) return [];
+
+    return fs
+      .readdirSync(this.folder)
+      .filter((file) => /^game-.+\.json$/.test(file))
+      .sort()
+      .map((file) => file.replace(/\.json$/, ''));
+  }
+
+  getRecordingPath(name: string): string {
+    return `${this.folder}/${name}.json`;
+  }
+
+  load(name: string): GameRecording | undefined {
+    if (!this.getRecordingNames().includes(name)) return undefined;
+
+    return JSON.parse(fs.readFileSync(this.getRecordingPath(name), { encoding: 'utf8' }));
+  }
+
+  delete(name: string): boolean {
+    if (!this.getRecordingNames().includes(name)) return false;
+
+    fs.unlinkSync(this.getRecordingPath(name));
+    return true;
+  }
+}
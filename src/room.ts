@@ -0,0 +1,1585 @@
+import socketIO from 'socket.io';
+import fs from 'fs';
+
+import ManifoldServer from './server';
+import { runChatCommand } from './chatCommands';
+import ManifoldBanList from './banList';
+import ManifoldChatFilter from './chatFilter';
+import ManifoldJournal from './journal';
+import ManifoldRecorder from './recorder';
+import ManifoldPlayerProfiles from './playerProfiles';
+import ManifoldPlaylist from './playlist';
+import ManifoldMapVotes from './mapVotes';
+import ManifoldPacketValidator from './packetValidator';
+import ManifoldInputGuard from './inputGuard';
+import ManifoldRoomState from './roomState';
+import { getLevelFromXp } from './utils';
+
+import * as IN from './inPacketIds';
+import * as OUT from './outPacketIds';
+import {
+  BanEntry,
+  Config,
+  GameSettings,
+  JournalEventType,
+  MuteEntry,
+  Player,
+  PlayerProfile,
+  PlayerRole,
+  RatelimitRestrictions,
+  RoleEntry,
+  RoomConfig,
+} from './types';
+import moment from 'moment';
+
+/**
+ * Rank of each role. Players without a role have a rank of 0.
+ */
+const roleRanks: Record<PlayerRole, number> = {
+  moderator: 1,
+  admin: 2,
+};
+
+const ratelimitMessages: Record<string, string> = {
+  joining: 'join_rate_limited',
+  chatting: 'chat_rate_limit',
+  changingTeams: 'rate_limit_teams',
+  readying: 'rate_limit_ready',
+  transferringHost: 'host_change_rate_limited',
+  votingMaps: 'map_vote_rate_limited',
+  changingRoomSettings: 'room_settings_rate_limited',
+};
+
+export default class ManifoldRoom {
+  public server: ManifoldServer;
+  public config: Config;
+
+  /**
+   * Identifier of the room, as set in the `rooms` section of the config.
+   */
+  public id: string;
+  /**
+   * `true` if this is the first room in the config. The default room is hosted at the root of the server (both the
+   * metadata endpoint and the socket.io namespace) and keeps its files at the root folder of the server, so that
+   * single-room setups keep working as they did before rooms were introduced.
+   */
+  public isDefault: boolean;
+  public namespace: socketIO.Namespace;
+
+  public playerInfo: Player[] = [];
+  public playerSockets: socketIO.Socket[] = [];
+  public ratelimits: Record<string, Record<string, number>> = {};
+  public banList: ManifoldBanList;
+  public roles: RoleEntry[];
+  public mutes: MuteEntry[] = [];
+  public chatFilter: ManifoldChatFilter;
+  public packetValidator: ManifoldPacketValidator;
+  public inputGuard: ManifoldInputGuard;
+  public chatLog: string = '';
+  public journal: ManifoldJournal;
+  public recorder: ManifoldRecorder;
+  public profiles: ManifoldPlayerProfiles;
+  public playlist: ManifoldPlaylist;
+  public mapVotes: ManifoldMapVotes;
+  public state: ManifoldRoomState;
+
+  public hostId: number = -1;
+  public gameStartTime: number = 0;
+  public gameInProgress: boolean = false;
+  public gameSettings: GameSettings;
+
+  public roomName: string;
+  public password: string | null;
+  /**
+   * If `true`, the current host asked for their host privileges not to be passed on to someone else when they leave.
+   */
+  public noHostSwap: boolean = false;
+  public playerAmount: number = 0;
+  public closed: boolean = false;
+  public scheduledForceStopTimeout?: NodeJS.Timeout;
+
+  constructor(server: ManifoldServer, roomConfig: RoomConfig, isDefault: boolean) {
+    this.server = server;
+    this.id = roomConfig.id;
+    this.isDefault = isDefault;
+
+    // room-specific settings take precedence over the ones at the root of the config
+    this.config = { ...server.config, ...roomConfig };
+
+    this.gameSettings = structuredClone(this.config.defaultGameSettings);
+    this.roomName = this.config.roomNameOnStartup;
+    this.password = this.config.roomPasswordOnStartup;
+
+    // gather ban list
+    this.banList = new ManifoldBanList(this.getDataPath('banlist.json'));
+
+    // gather player profiles
+    this.profiles = new ManifoldPlayerProfiles(this.getDataPath('profiles.json'));
+
+    // gather map votes
+    this.mapVotes = new ManifoldMapVotes(this.getDataPath('mapvotes.json'));
+
+    // gather role list
+    if (fs.existsSync(this.getDataPath('roles.json'))) {
+      this.roles = JSON.parse(fs.readFileSync(this.getDataPath('roles.json'), { encoding: 'utf8' }));
+    } else {
+      this.roles = [];
+    }
+
+    this.chatFilter = new ManifoldChatFilter(this);
+    this.packetValidator = new ManifoldPacketValidator(this);
+    this.inputGuard = new ManifoldInputGuard(this);
+    this.journal = new ManifoldJournal(this);
+    this.recorder = new ManifoldRecorder(this);
+    this.playlist = new ManifoldPlaylist(this);
+
+    // pick up where the room left off before the last restart
+    this.state = new ManifoldRoomState(this);
+
+    // register socket connection events
+    this.namespace = server.io.of(this.path);
+    this.namespace.on('connection', (socket) => this.handleConnection(socket));
+  }
+
+  /**
+   * Path under which the room's metadata endpoint and socket.io namespace are hosted.
+   */
+  get path(): string {
+    return this.isDefault ? '/' : `/${this.id}`;
+  }
+
+  /**
+   * Get the path of a file that belongs to this room. The default room's files are stored at the root folder of the
+   * server, while the files of every other room are stored in `rooms/{room id}/`.
+   */
+  getDataPath(fileName: string): string {
+    const folder = this.isDefault ? '.' : `./rooms/${this.id}`;
+    if (!fs.existsSync(folder)) fs.mkdirSync(folder, { recursive: true });
+
+    return `${folder}/${fileName}`;
+  }
+
+  getMetadata() {
+    return {
+      isBonkServer: true,
+      id: this.id,
+      path: this.path,
+      roomname: this.roomName,
+      password: this.password ? 1 : 0,
+      players: this.playerAmount,
+      maxplayers: this.config.maxPlayers,
+      mode_ga: this.gameSettings.ga,
+      mode_mo: this.gameSettings.mo,
+      closed: this.closed,
+    };
+  }
+
+  handleConnection(socket: socketIO.Socket) {
+    // every packet is validated before it reaches its handler
+    socket.use((packet, next) => {
+      const packetId = packet[0];
+      this.server.metrics?.recordPacket(this, packetId);
+
+      // plugins can change packets or drop them. packets are validated afterwards, so plugins can't get malformed
+      // packets past the validator
+      const packetEvent = { room: this.id, playerId: socket.data.bonkId ?? null, packetId, data: packet[1] as unknown };
+      if (this.server.plugins.runHook('onPacket', packetEvent).rejected) return;
+
+      packet[1] = packetEvent.data;
+      if (this.packetValidator.checkPacket(socket, packetId, packet[1])) next();
+    });
+
+    socket.on('disconnect', () => this.packetValidator.forgetSocket(socket));
+
+    // timesync packet handling
+    socket.conn.on('packet', (packet) => {
+      if (/[0-9]\[18/.test(packet.data)) {
+        const infoString = packet.data.replace(/.*(\{.+\})\]/, '$1');
+        let timeSyncInfo;
+
+        try {
+          timeSyncInfo = JSON.parse(infoString);
+        } catch {
+          this.packetValidator.addOffense(socket, 'packet 18: not valid JSON');
+          return;
+        }
+
+        socket.emit(OUT.REPLY_TIMESYNC, {
+          id: timeSyncInfo.id,
+          result: Date.now(),
+        });
+      }
+    });
+
+    // new player joins the room and sends this packet
+    socket.on(IN.JOIN_REQUEST, (playerData) => {
+      this.server.metrics?.record('manifold_join_attempts_total', this);
+
+      /* #region JOIN RESTRICTIONS */
+
+      // server closed check
+      if (this.closed) {
+        this.rejectJoin(socket, 'closed');
+        return;
+      }
+
+      // banned check
+      this.liftExpiredBans();
+      if (this.banList.find(playerData.userName, socket.handshake.address)) {
+        this.rejectJoin(socket, 'banned');
+        return;
+      }
+
+      // already joined check
+      if (socket.data.bonkId !== undefined) return;
+
+      // join ratelimit check
+      if (this.processRatelimit(socket, 'joining')) {
+        this.server.metrics?.record('manifold_join_rejections_total', this, { reason: ratelimitMessages.joining });
+        return;
+      }
+
+      // plugin check. plugins can also change the username and level, which still go through the checks below
+      const joinEvent = {
+        room: this.id,
+        address: socket.handshake.address,
+        userName: playerData.userName,
+        guest: playerData.guest,
+        level: playerData.level,
+      };
+      const joinResult = this.server.plugins.runHook('beforeJoin', joinEvent);
+
+      if (joinResult.rejected) {
+        this.rejectJoin(socket, joinResult.reason ?? 'rejected_by_plugin');
+        return;
+      }
+
+      // the changes made by plugins must still fit the format of the join packet
+      const joinError = this.packetValidator.validatePacket(IN.JOIN_REQUEST, {
+        ...playerData,
+        userName: joinEvent.userName,
+        level: joinEvent.level,
+      });
+
+      if (joinError) {
+        console.log(`A plugin made a join request to room "${this.id}" invalid (${joinError}).`);
+        this.rejectJoin(socket, 'rejected_by_plugin');
+        return;
+      }
+
+      playerData.userName = joinEvent.userName;
+      playerData.level = joinEvent.level;
+
+      // username duplicate check
+      if (this.config.restrictions.usernames.noDuplicates) {
+        for (const player of this.playerInfo) {
+          if (!player) continue;
+
+          if (player.userName === playerData.userName) {
+            this.rejectJoin(socket, 'already_in_this_room');
+            return;
+          }
+        }
+      }
+
+      // username length check
+      if (playerData.userName.length > this.config.restrictions.usernames.maxLength) {
+        this.rejectJoin(socket, 'username_too_long');
+        return;
+      }
+
+      // empty username check
+      if (this.config.restrictions.usernames.noEmptyNames && !playerData.userName) {
+        this.rejectJoin(socket, 'username_empty');
+        return;
+      }
+
+      // username regex check
+      if (this.config.restrictions.usernames.disallowRegex.test(playerData.userName)) {
+        this.rejectJoin(socket, 'username_invalid');
+        return;
+      }
+
+      // username chat filter check
+      if (!this.chatFilter.isUsernameAllowed(playerData.userName)) {
+        this.rejectJoin(socket, 'username_invalid');
+        return;
+      }
+
+      // with server-side XP, the server decides the level of the player instead of trusting the one they provided
+      if (this.config.xp.enabled) {
+        playerData.level = playerData.guest
+          ? 0
+          : getLevelFromXp(this.profiles.get(playerData.userName, false)?.xp ?? 0);
+      }
+
+      // min level check
+      if (this.config.restrictions.levels.minLevel > 0 && playerData.guest) {
+        this.rejectJoin(socket, 'guests_not_allowed');
+        return;
+      }
+
+      if (playerData.level < this.config.restrictions.levels.minLevel) {
+        this.rejectJoin(socket, 'players_xp_too_low');
+        return;
+      }
+
+      // max level check
+      if (playerData.level > this.config.restrictions.levels.maxLevel) {
+        this.rejectJoin(socket, 'players_xp_too_high');
+        return;
+      }
+
+      // numeric level check
+      if (this.config.restrictions.levels.onlyAllowNumbers && /[^0-9]/.test(playerData.level)) {
+        this.rejectJoin(socket, 'player_xp_invalid');
+        return;
+      }
+
+      // password check
+      if (this.password && playerData.roomPassword !== this.password) {
+        this.rejectJoin(socket, 'password_wrong');
+        return;
+      }
+
+      // max players check
+      if (this.playerAmount == this.config.maxPlayers) {
+        this.rejectJoin(socket, 'room_full');
+        return;
+      }
+
+      /* #endregion JOIN RESTRICTIONS */
+
+      this.registerSocketEvents(socket);
+      socket.join('main');
+
+      // assign id to new player and store it in the socket
+      socket.data = {
+        bonkId: this.playerInfo.length,
+        joinedAt: Date.now(),
+      };
+
+      // players who were in the room before a restart get their team (and host privileges) back
+      const team = this.state.takeTeam(playerData.userName, playerData.guest) ?? (this.gameSettings.tl ? 0 : 1);
+      const restoresHost = this.state.takeHost(playerData.userName, playerData.guest);
+
+      // add new player to the player socket and info lists
+      this.playerSockets[socket.data.bonkId] = socket;
+      this.playerInfo[socket.data.bonkId] = {
+        peerId: 'invalid',
+        userName: playerData.userName,
+        guest: playerData.guest,
+        team,
+        level: this.config.restrictions.levels.censorLevels ? '-' : playerData.level,
+        ready: false,
+        tabbed: false,
+        avatar: playerData.avatar,
+      };
+
+      this.playerAmount++;
+
+      // emit initial lobby info to new player
+      socket.emit(
+        OUT.SERVER_INFORM,
+        socket.data.bonkId,
+        this.playerInfo[this.hostId]
+          ? this.hostId
+          : this.config.autoAssignHost || restoresHost
+            ? socket.data.bonkId
+            : -1,
+        this.playerInfo,
+        this.gameStartTime,
+        this.gameSettings.tl,
+        0,
+        'invalid',
+        null,
+      );
+
+      // notify everyone (but the new player) about the join
+      socket.broadcast.emit(
+        OUT.PLAYER_JOINED,
+        socket.data.bonkId,
+        'invalid',
+        playerData.userName,
+        playerData.guest,
+        playerData.level,
+        team,
+        playerData.avatar,
+      );
+
+      // log join message
+      this.logChatMessage(`* ${playerData.userName} joined the game`);
+      this.logEvent('join', playerData.userName, {
+        id: socket.data.bonkId,
+        address: socket.handshake.address,
+        guest: playerData.guest,
+        level: playerData.level,
+      });
+      this.recorder.recordEvent('join', socket.data.bonkId, playerData.userName);
+      this.updateProfile(socket.data.bonkId, (profile) => {
+        profile.joins++;
+        profile.lastSeen = Date.now();
+        if (!profile.addresses.includes(socket.handshake.address)) profile.addresses.push(socket.handshake.address);
+      });
+
+      // let players with a role know about it
+      const role = this.getPlayerRole(socket.data.bonkId);
+      if (role) this.sendPlayerStatusMessage(socket.data.bonkId, `* You are a ${role} in this room.`);
+
+      // if there's no host in the room, pretend to be the host and
+      // send the "inform in lobby" packet. if autoAssignHost is on,
+      // make the new player a host
+      if (!this.playerInfo[this.hostId]) {
+        if (this.config.autoAssignHost || restoresHost) {
+          this.hostId = socket.data.bonkId;
+          this.logEvent('host_transfer', playerData.userName, { from: null, by: 'server' });
+        }
+
+        socket.emit(OUT.HOST_INFORM_IN_LOBBY, this.gameSettings);
+      } else if (restoresHost) {
+        this.transferHost(socket.data.bonkId);
+      }
+
+      this.server.plugins.runHook('onJoin', {
+        room: this.id,
+        playerId: socket.data.bonkId,
+        userName: playerData.userName,
+      });
+    });
+  }
+
+  /**
+   * Get the id of a player through their username or id. Returns -1 if there's no such player in the room.
+   */
+  getPlayerId(nameOrId: string): number {
+    if (!/[^0-9]+/.test(nameOrId) && this.playerSockets[parseInt(nameOrId)]) {
+      return parseInt(nameOrId);
+    } else {
+      for (let i = 0; i < this.playerInfo.length; i++) {
+        if (this.playerInfo[i] && this.playerInfo[i].userName == nameOrId) return i;
+      }
+    }
+
+    return -1;
+  }
+
+  /**
+   * Get the role of a player in the room. Guests can't have roles, and if roles are bound to addresses, the player
+   * must be connecting from one of the addresses stored in their role entry.
+   */
+  getPlayerRole(id: number): PlayerRole | undefined {
+    const player = this.playerInfo[id];
+    if (!player || player.guest) return undefined;
+
+    const entry = this.roles.find((i) => i.username === player.userName);
+    if (!entry) return undefined;
+
+    if (this.config.roles.bindToAddress && !entry.addresses.includes(this.playerSockets[id].handshake.address)) {
+      return undefined;
+    }
+
+    return entry.role;
+  }
+
+  /**
+   * Check whether a player has the specified role, or a role that ranks above it.
+   */
+  playerHasRole(id: number, role: PlayerRole): boolean {
+    const playerRole = this.getPlayerRole(id);
+    return playerRole !== undefined && roleRanks[playerRole] >= roleRanks[role];
+  }
+
+  /**
+   * Check whether a player can perform moderation actions (such as kicking or banning) on another player. Players
+   * with a role can only be moderated by players with a role that ranks above theirs.
+   */
+  playerOutranks(actorId: number, targetId: number): boolean {
+    const targetRole = this.getPlayerRole(targetId);
+    if (targetRole === undefined) return true;
+
+    const actorRole = this.getPlayerRole(actorId);
+    return actorRole !== undefined && roleRanks[actorRole] > roleRanks[targetRole];
+  }
+
+  /**
+   * Give a role to a player, or take it away if no role is given. If the player is in the room, the address they're
+   * connecting from gets added to their role entry.
+   */
+  setRole(username: string, role: PlayerRole | undefined, address?: string) {
+    const entryIndex = this.roles.findIndex((i) => i.username === username);
+
+    if (role === undefined) {
+      if (entryIndex != -1) this.roles.splice(entryIndex, 1);
+    } else if (entryIndex == -1) {
+      this.roles.push({ username, role, addresses: address ? [address] : [] });
+    } else {
+      const entry = this.roles[entryIndex];
+
+      entry.role = role;
+      if (address && !entry.addresses.includes(address)) entry.addresses.push(address);
+    }
+
+    this.saveRoles();
+  }
+
+  saveRoles() {
+    fs.writeFileSync(this.getDataPath('roles.json'), JSON.stringify(this.roles), {
+      encoding: 'utf8',
+    });
+  }
+
+  /**
+   * Change the profile of a player in the room.
+   */
+  updateProfile(id: number, changes: (profile: PlayerProfile) => void) {
+    this.profiles.update(this.playerInfo[id].userName, this.playerInfo[id].guest, changes);
+  }
+
+  /**
+   * Add the time spent in the room so far by every player to their profile's playtime.
+   */
+  flushPlaytime() {
+    const now = Date.now();
+
+    for (let i = 0; i < this.playerSockets.length; i++) {
+      const socket = this.playerSockets[i];
+      if (!socket) continue;
+
+      this.updateProfile(i, (profile) => {
+        profile.playtime += now - socket.data.joinedAt;
+        profile.lastSeen = now;
+      });
+      socket.data.joinedAt = now;
+    }
+  }
+
+  processRatelimit(socket: socketIO.Socket, actionType: keyof RatelimitRestrictions) {
+    const socketAddress = socket.handshake.address;
+    const ratelimitOptions = this.config.restrictions.ratelimits[actionType as keyof RatelimitRestrictions];
+
+    this.ratelimits[socketAddress] ??= {};
+    const socketRatelimits = this.ratelimits[socketAddress];
+
+    socketRatelimits[actionType] ??= 0;
+
+    // if this is the first recorded instance of the action within the timeframe, start a timer that resets the
+    // action recorder after the timeframe passes (unless it reaches the ratelimit within the timeframe)
+    if (socketRatelimits[actionType] == 0) {
+      setTimeout(() => {
+        if (socketRatelimits[actionType] < ratelimitOptions.amount) {
+          socketRatelimits[actionType] = 0;
+        }
+      }, ratelimitOptions.timeframe * 1000);
+    }
+
+    socketRatelimits[actionType]++;
+
+    // if the ratelimit is reached, start a timer that resets the action recorder after the restore time passes
+    if (socketRatelimits[actionType] == ratelimitOptions.amount) {
+      setTimeout(() => {
+        socketRatelimits[actionType] = 0;
+      }, ratelimitOptions.restore * 1000);
+    }
+
+    // if the ratelimit has been reached, send a ratelimit error message to the socket and return true, otherwise just
+    // return false
+    if (socketRatelimits[actionType] >= ratelimitOptions.amount) {
+      // some actions have no error message to show
+      if (ratelimitMessages[actionType]) socket.emit(OUT.ERROR_MESSAGE, ratelimitMessages[actionType]);
+      this.server.metrics?.record('manifold_ratelimit_hits_total', this, { action: actionType });
+
+      return true;
+    } else {
+      return false;
+    }
+  }
+
+  /**
+   * Turn down a player trying to join the room, telling them why through an error message.
+   */
+  rejectJoin(socket: socketIO.Socket, reason: string) {
+    socket.emit(OUT.ERROR_MESSAGE, reason);
+    this.server.metrics?.record('manifold_join_rejections_total', this, { reason });
+  }
+
+  /**
+   * Mark the game in progress (if there's one) as over.
+   */
+  endGame() {
+    if (!this.gameInProgress) return;
+
+    this.gameInProgress = false;
+    this.server.metrics?.record('manifold_game_length_seconds', this, {}, (Date.now() - this.gameStartTime) / 1000);
+  }
+
+  assertPlayerIsHost(playerId: number, shouldErrorMessage: boolean = true): boolean {
+    if (playerId == this.hostId) return true;
+
+    if (shouldErrorMessage) {
+      this.playerSockets[playerId].emit(OUT.ERROR_MESSAGE, 'not_hosting');
+    }
+
+    return false;
+  }
+
+  logChatMessage(content: string) {
+    const line = `[${moment().format(this.config.timeStampFormat)}] ${content}`;
+
+    this.chatLog += line + '\n';
+    this.server.dashboard?.pushChatLine(this, line);
+  }
+
+  /**
+   * Write an event to the room's journal. `player` is the username of the player the event is about, if any.
+   */
+  logEvent(type: JournalEventType, player: string | null, details: Record<string, unknown> = {}) {
+    this.journal.write({ time: Date.now(), type, player, ...details });
+    this.server.webhooks.send(type, this, player, details);
+    this.server.chatBridge?.relay(type, this, player, details);
+  }
+
+  sendChatStatusMessage(message: string) {
+    this.namespace.to('main').emit(OUT.MANIFOLD_CHAT_STATUS, message, '#b53030');
+    this.logChatMessage(message);
+  }
+
+  /**
+   * Send a status message that only the specified player can see.
+   */
+  sendPlayerStatusMessage(playerId: number, message: string) {
+    this.playerSockets[playerId]?.emit(OUT.MANIFOLD_CHAT_STATUS, message, '#b53030');
+  }
+
+  saveChatLog() {
+    if (this.chatLog == '') return;
+
+    const chatLogFolder = this.getDataPath('chatlogs');
+    if (!fs.existsSync(chatLogFolder)) fs.mkdirSync(chatLogFolder);
+    fs.writeFileSync(`${chatLogFolder}/${moment().format(this.config.timeStampFormat)}.txt`, this.chatLog);
+    this.chatLog = '';
+  }
+
+  transferHost(id: number) {
+    const oldHostId = this.hostId;
+    this.hostId = id;
+    this.noHostSwap = false;
+    this.state.pendingHost = null;
+
+    this.logEvent('host_transfer', this.playerInfo[id]?.userName ?? null, {
+      from: this.playerInfo[oldHostId]?.userName ?? null,
+      by: 'server',
+    });
+
+    // send host change packet to everyone
+    this.namespace.to('main').emit(OUT.TRANSFER_HOST, { oldHost: -1, newHost: this.hostId });
+
+    // log host transfer message
+    if (id == -1) {
+      const gameWasInProgress = this.gameInProgress;
+
+      this.namespace.to('main').emit(OUT.RETURN_TO_LOBBY);
+      if (gameWasInProgress) {
+        this.endGame();
+        this.logEvent('return_to_lobby', null);
+        this.recorder.stop();
+      }
+
+      this.sendChatStatusMessage(
+        `* ${this.playerInfo[oldHostId].userName} had their host privileges taken away by the server, making the ` +
+          'room hostless.',
+      );
+
+      // the playlist only moves on once a game has been played on the current map
+      if (gameWasInProgress) this.playlist.advance();
+    } else if (oldHostId == -1) {
+      this.sendChatStatusMessage(`* ${this.playerInfo[id].userName} is now the game host.`);
+    } else {
+      this.sendChatStatusMessage(
+        `* Server has taken host privileges from ${this.playerInfo[oldHostId].userName}, and ` +
+          `${this.playerInfo[id].userName} is now the game host.`,
+      );
+    }
+  }
+
+  /**
+   * Ban a player in the room, both by username and address.
+   */
+  banPlayer(id: number, reason: string, issuedBy: string, expiresAt: number | null = null): BanEntry {
+    return this.addBan({
+      username: this.playerInfo[id].userName,
+      address: this.playerSockets[id].handshake.address,
+      reason,
+      issuedBy,
+      expiresAt,
+    });
+  }
+
+  /**
+   * Add a ban to the ban list, and disconnect every player in the room affected by it.
+   */
+  addBan(ban: Omit<BanEntry, 'id' | 'issuedAt'>): BanEntry {
+    const entry = this.banList.add(ban);
+
+    this.logEvent('ban', entry.username, {
+      banId: entry.id,
+      address: entry.address,
+      reason: entry.reason,
+      issuedBy: entry.issuedBy,
+      expiresAt: entry.expiresAt,
+    });
+
+    // bans of usernames that aren't in the room still count towards the profile of the account using them
+    if (entry.username !== null && this.getPlayerId(entry.username) == -1 && this.profiles.get(entry.username, false)) {
+      this.profiles.update(entry.username, false, (profile) => profile.timesBanned++);
+    }
+
+    for (let i = 0; i < this.playerInfo.length; i++) {
+      if (!this.playerInfo[i]) continue;
+      if (!ManifoldBanList.banApplies(entry, this.playerInfo[i].userName, this.playerSockets[i].handshake.address)) {
+        continue;
+      }
+
+      const expiry =
+        entry.expiresAt === null ? '' : ` until ${moment(entry.expiresAt).format(this.config.timeStampFormat)}`;
+      const reason = entry.reason ? ` (reason: ${entry.reason})` : '';
+
+      this.logChatMessage(
+        `${this.playerInfo[i].userName} was banned from the server by ${entry.issuedBy}${expiry}${reason}`,
+      );
+      this.updateProfile(i, (profile) => profile.timesBanned++);
+      this.playerSockets[i].disconnect();
+    }
+
+    return entry;
+  }
+
+  /**
+   * Remove expired bans from the ban list, logging each one of them.
+   */
+  liftExpiredBans() {
+    for (const ban of this.banList.removeExpired()) {
+      this.logChatMessage(`Ban #${ban.id} (${ban.username ?? ban.address}) has expired`);
+    }
+  }
+
+  /**
+   * Mute a player. Muted players can't send chat messages or map requests. If `shadow` is `true`, the player won't be
+   * told they're muted, and their messages will still be shown to them (but to no one else).
+   */
+  mutePlayer(id: number, shadow: boolean, issuedBy: string, expiresAt: number | null = null): MuteEntry {
+    this.unmutePlayer(this.playerInfo[id].userName);
+
+    const mute: MuteEntry = {
+      username: this.playerInfo[id].userName,
+      address: this.playerSockets[id].handshake.address,
+      shadow,
+      issuedBy,
+      expiresAt,
+    };
+
+    this.mutes.push(mute);
+
+    const expiry = expiresAt === null ? '' : ` until ${moment(expiresAt).format(this.config.timeStampFormat)}`;
+    this.logChatMessage(`${mute.username} was ${shadow ? 'shadow-muted' : 'muted'} by ${issuedBy}${expiry}`);
+    this.logEvent('mute', mute.username, { address: mute.address, shadow, issuedBy, expiresAt });
+
+    if (!shadow) this.sendPlayerStatusMessage(id, `* You have been muted${expiry}.`);
+
+    return mute;
+  }
+
+  /**
+   * Remove every mute targeting a username, or the username and address of a player in the room. Returns the mutes
+   * that were removed.
+   */
+  unmutePlayer(username: string, address?: string): MuteEntry[] {
+    const removedMutes = this.mutes.filter((mute) => mute.username === username || mute.address === address);
+
+    this.mutes = this.mutes.filter((mute) => !removedMutes.includes(mute));
+
+    return removedMutes;
+  }
+
+  /**
+   * Get the mute that applies to a player, if any. Mutes are matched through both username and address, so they
+   * persist if the player reconnects. Expired mutes are removed.
+   */
+  getPlayerMute(id: number): MuteEntry | undefined {
+    this.removeExpiredMutes();
+
+    return this.mutes.find(
+      (mute) =>
+        mute.username === this.playerInfo[id].userName || mute.address === this.playerSockets[id].handshake.address,
+    );
+  }
+
+  removeExpiredMutes() {
+    const now = Date.now();
+    this.mutes = this.mutes.filter((mute) => mute.expiresAt === null || mute.expiresAt > now);
+  }
+
+  setTabbed(id: number, tabbed: boolean) {
+    this.playerInfo[id].tabbed = tabbed;
+
+    // send tabbed (afk) state to everyone
+    this.namespace.to('main').emit(OUT.SET_TABBED, id, tabbed);
+  }
+
+  changeTeam(id: number, team: number) {
+    // change team in the player list
+    this.playerInfo[id].team = team;
+
+    // send team change packet to everyone
+    this.namespace.to('main').emit(OUT.CHANGE_TEAM, id, team);
+  }
+
+  /**
+   * Change the map of the room on behalf of the server.
+   */
+  changeMap(map: string) {
+    this.gameSettings.map = map;
+
+    this.namespace.to('main').emit(OUT.CHANGE_MAP, map);
+    this.logEvent('map_change', null, { map });
+    this.server.plugins.runHook('onMapChange', { room: this.id, playerId: null, map });
+  }
+
+  /**
+   * Change the room's name and let everyone in the room know about it.
+   */
+  setRoomName(name: string) {
+    this.roomName = name;
+
+    this.namespace.to('main').emit(OUT.CHANGE_ROOM_NAME, name);
+  }
+
+  /**
+   * Change (or clear) the room's password and let everyone in the room know whether the room has a password.
+   */
+  setRoomPassword(password: string | null) {
+    this.password = password;
+
+    this.namespace.to('main').emit(OUT.CHANGE_ROOM_PASSWORD, password ? 1 : 0);
+  }
+
+  /**
+   * Reset the room's name, password and game settings to the ones used on startup, forgetting the saved room state.
+   */
+  resetState() {
+    this.state.reset();
+
+    this.setRoomName(this.config.roomNameOnStartup);
+    this.setRoomPassword(this.config.roomPasswordOnStartup);
+
+    // balances aren't sent to the players, as there's no packet to reset them
+    this.gameSettings = structuredClone(this.config.defaultGameSettings);
+    this.namespace.to('main').emit(OUT.CHANGE_MODE, this.gameSettings.ga, this.gameSettings.mo);
+    this.namespace.to('main').emit(OUT.CHANGE_ROUNDS, this.gameSettings.wl);
+    this.namespace.to('main').emit(OUT.TOGGLE_TEAMS, this.gameSettings.tea);
+    this.namespace.to('main').emit(OUT.LOCK_TEAMS, this.gameSettings.tl);
+    this.changeMap(this.gameSettings.map);
+  }
+
+  kickPlayer(id: number, issuedBy: string) {
+    this.logChatMessage(`${this.playerInfo[id].userName} was kicked from the server by ${issuedBy}`);
+    this.logEvent('kick', this.playerInfo[id].userName, { issuedBy });
+    this.updateProfile(id, (profile) => profile.timesKicked++);
+    this.playerSockets[id].disconnect();
+  }
+
+  scheduledClose(timeUntilForceStop?: number): string | undefined {
+    this.closed = true;
+
+    this.hostId = -1;
+    this.namespace.to('main').emit(OUT.TRANSFER_HOST, { oldHost: -1, newHost: -1 });
+
+    this.namespace.to('main').emit(OUT.RETURN_TO_LOBBY);
+    this.endGame();
+    this.logEvent('return_to_lobby', null);
+    this.recorder.stop();
+
+    if (timeUntilForceStop) {
+      const forceStopTime = moment().add(timeUntilForceStop, 'minutes');
+
+      this.scheduledForceStopTimeout = setTimeout(() => {
+        console.log(`Scheduled close time limit reached for room "${this.id}". Closing...`);
+
+        // disconnecting everyone makes the last disconnect handler shut the room down
+        for (const socket of this.playerSockets) {
+          if (socket) socket.disconnect();
+        }
+      }, timeUntilForceStop * 60000);
+
+      this.sendChatStatusMessage(
+        '* The room has been closed. Player entry is now prohibited, and the room will shut down ' +
+          `${forceStopTime.fromNow()}, or as soon as everyone leaves the room.`,
+      );
+
+      return forceStopTime.fromNow();
+    } else {
+      this.sendChatStatusMessage(
+        '* The room has been closed. Player entry is now prohibited, and as soon as everyone leaves the room, the ' +
+          'room will shut down.',
+      );
+    }
+  }
+
+  /**
+   * Get the room ready for the server to shut down: return it to the lobby, close it to new players and let everyone
+   * know through a status message.
+   */
+  beginShutdown(message: string) {
+    this.closed = true;
+    clearTimeout(this.scheduledForceStopTimeout);
+
+    if (this.gameInProgress) {
+      this.namespace.to('main').emit(OUT.RETURN_TO_LOBBY);
+      this.endGame();
+      this.logEvent('return_to_lobby', null);
+      this.recorder.stop();
+    }
+
+    // take a snapshot before anyone leaves
+    this.state.stop();
+
+    this.sendChatStatusMessage(message);
+  }
+
+  abortScheduledClose() {
+    this.closed = false;
+
+    clearTimeout(this.scheduledForceStopTimeout);
+
+    this.sendChatStatusMessage(
+      '* The room has been re-opened! Player entry is no longer prohibited and the room will no longer ' +
+        'automatically shut down.',
+    );
+
+    if (this.config.autoAssignHost) {
+      const newHostId = this.playerSockets.findIndex((i) => i && this.hostId != i.data.bonkId);
+
+      if (newHostId != -1) {
+        this.transferHost(newHostId);
+      }
+    }
+  }
+
+  registerSocketEvents(socket: socketIO.Socket) {
+    /* #region JOIN HANDLERS */
+
+    // "inform in lobby" packet
+    socket.on(IN.HOST_INFORM_IN_LOBBY, (data) => {
+      if (!this.assertPlayerIsHost(socket.data.bonkId)) return;
+      this.playerSockets[data.sid].emit(OUT.HOST_INFORM_IN_LOBBY, data.gs);
+    });
+
+    // "inform in game" packet
+    socket.on(IN.HOST_INFORM_IN_GAME, (data) => {
+      if (!this.assertPlayerIsHost(socket.data.bonkId)) return;
+      this.playerSockets[data.sid].emit(OUT.HOST_INFORM_IN_GAME, data.allData);
+    });
+
+    /* #endregion JOIN HANDLERS */
+
+    /* #region NON-HOST ACTIONS */
+
+    // change own team
+    socket.on(IN.CHANGE_OWN_TEAM, (data) => {
+      if (this.processRatelimit(socket, 'changingTeams')) return;
+
+      if (this.gameSettings.tl && !this.assertPlayerIsHost(socket.data.bonkId)) return;
+
+      this.changeTeam(socket.data.bonkId, data.targetTeam);
+    });
+
+    // send chat message
+    socket.on(IN.CHAT_MESSAGE, (data) => {
+      if (this.processRatelimit(socket, 'chatting')) return;
+
+      // limit message length
+      data.message = data.message.slice(0, this.config.restrictions.maxChatMessageLength);
+
+      // messages starting with the command prefix are sent to the chat command registry instead of the room
+      if (this.config.chatCommands.enabled && data.message.startsWith(this.config.chatCommands.prefix)) {
+        this.logChatMessage([this.playerInfo[socket.data.bonkId].userName, ' used command ', data.message].join(''));
+        this.logEvent('command', this.playerInfo[socket.data.bonkId].userName, { command: data.message });
+        runChatCommand(this, socket.data.bonkId, data.message.slice(this.config.chatCommands.prefix.length));
+        return;
+      }
+
+      // messages from muted players are only logged. shadow-muted players still see their own messages
+      const mute = this.getPlayerMute(socket.data.bonkId);
+      if (mute) {
+        if (mute.shadow) {
+          socket.emit(OUT.CHAT_MESSAGE, socket.data.bonkId, data.message);
+        } else {
+          this.sendPlayerStatusMessage(socket.data.bonkId, '* You are muted. Your message was not sent.');
+        }
+
+        this.logChatMessage(
+          [
+            mute.shadow ? '[shadow-muted] ' : '[muted] ',
+            this.playerInfo[socket.data.bonkId].userName,
+            ': ',
+            data.message,
+          ].join(''),
+        );
+        this.logEvent('chat', this.playerInfo[socket.data.bonkId].userName, {
+          message: data.message,
+          suppressed: mute.shadow ? 'shadow-muted' : 'muted',
+        });
+
+        // offenses still count while muted, so that players who keep breaking the rules end up kicked
+        const filterResult = this.chatFilter.filterChatMessage(socket.data.bonkId, data.message);
+        if (filterResult.action) {
+          this.chatFilter.penalize(socket.data.bonkId, filterResult.action, filterResult.reason!);
+        }
+        return;
+      }
+
+      // plugins can change the message or reject it. rejected messages are only logged
+      const chatEvent = {
+        room: this.id,
+        playerId: socket.data.bonkId,
+        userName: this.playerInfo[socket.data.bonkId].userName,
+        message: data.message,
+      };
+      const chatResult = this.server.plugins.runHook('beforeChat', chatEvent);
+
+      if (chatResult.rejected) {
+        if (chatResult.reason) this.sendPlayerStatusMessage(socket.data.bonkId, `* ${chatResult.reason}`);
+
+        this.logChatMessage(`[rejected by plugin] ${this.playerInfo[socket.data.bonkId].userName}: ${data.message}`);
+        this.logEvent('chat', this.playerInfo[socket.data.bonkId].userName, {
+          message: data.message,
+          suppressed: 'plugin',
+          reason: chatResult.reason,
+        });
+        return;
+      }
+
+      data.message = String(chatEvent.message).slice(0, this.config.restrictions.maxChatMessageLength);
+
+      // run the message through the chat filter. blocked messages are only logged
+      const filterResult = this.chatFilter.filterChatMessage(socket.data.bonkId, data.message);
+      if (filterResult.action && filterResult.action != 'censor') {
+        this.logChatMessage(
+          [
+            `[filtered: ${filterResult.reason}] `,
+            this.playerInfo[socket.data.bonkId].userName,
+            ': ',
+            data.message,
+          ].join(''),
+        );
+        this.logEvent('chat', this.playerInfo[socket.data.bonkId].userName, {
+          message: data.message,
+          suppressed: 'filtered',
+          reason: filterResult.reason,
+        });
+        this.chatFilter.penalize(socket.data.bonkId, filterResult.action, filterResult.reason!);
+        return;
+      }
+
+      // send chat message to everyone
+      this.namespace.to('main').emit(OUT.CHAT_MESSAGE, socket.data.bonkId, filterResult.text);
+      this.updateProfile(socket.data.bonkId, (profile) => profile.messagesSent++);
+      this.server.metrics?.record('manifold_chat_messages_total', this);
+
+      // log chat message
+      this.logChatMessage(
+        [
+          filterResult.action ? `[censored: ${filterResult.reason}] ` : '',
+          this.playerInfo[socket.data.bonkId].userName,
+          ': ',
+          data.message,
+        ].join(''),
+      );
+      this.logEvent(
+        'chat',
+        this.playerInfo[socket.data.bonkId].userName,
+        filterResult.action ? { message: data.message, censoredMessage: filterResult.text } : { message: data.message },
+      );
+    });
+
+    // set own ready state
+    socket.on(IN.SET_READY, (data) => {
+      if (this.processRatelimit(socket, 'readying')) return;
+      if (typeof data.ready !== 'boolean') return;
+
+      this.playerInfo[socket.data.bonkId].ready = data.ready;
+
+      // send ready state to everyone
+      this.namespace.to('main').emit(OUT.SET_READY, socket.data.bonkId, data.ready);
+    });
+
+    // send map request
+    socket.on(IN.MAP_REQUEST, (data) => {
+      if (this.processRatelimit(socket, 'chatting')) return;
+
+      const mute = this.getPlayerMute(socket.data.bonkId);
+
+      // the map name and author go through the chat filter, unless the player is muted (which blocks it anyway)
+      const filterResult = mute ? undefined : this.chatFilter.filterMapRequest(data.mapname, data.mapauthor);
+      const filtered = filterResult?.action !== undefined && filterResult.action != 'censor';
+      const mapName = filterResult?.text ?? data.mapname;
+      const mapAuthor = filterResult?.author ?? data.mapauthor;
+
+      if (mute?.shadow) {
+        // shadow-muted players still see their own map requests
+        socket.emit(OUT.MAP_REQUEST_NON_HOST, data.mapname, data.mapauthor, socket.data.bonkId);
+      } else if (mute) {
+        this.sendPlayerStatusMessage(socket.data.bonkId, '* You are muted. Your map request was not sent.');
+      } else if (filtered) {
+        this.chatFilter.penalize(socket.data.bonkId, filterResult!.action!, filterResult!.reason!);
+      } else if (this.hostId == -1) {
+        this.namespace.emit(OUT.MAP_REQUEST_NON_HOST, mapName, mapAuthor, socket.data.bonkId);
+      } else {
+        // send map request packet to everyone but the host (only contains metadata of the map)
+        this.playerSockets[this.hostId].broadcast.emit(
+          OUT.MAP_REQUEST_NON_HOST,
+          mapName,
+          mapAuthor,
+          socket.data.bonkId,
+        );
+
+        // send map request packet to host (contains the actual map)
+        this.playerSockets[this.hostId].emit(OUT.MAP_REQUEST_HOST, data.m, socket.data.bonkId);
+      }
+
+      // log map request
+      let logPrefix = '';
+
+      if (mute) {
+        logPrefix = mute.shadow ? '[shadow-muted] ' : '[muted] ';
+      } else if (filterResult?.action) {
+        logPrefix = `[${filtered ? 'filtered' : 'censored'}: ${filterResult.reason}] `;
+      }
+
+      this.logChatMessage(
+        [
+          logPrefix,
+          '* ',
+          this.playerInfo[socket.data.bonkId].userName,
+          ' has requested the map ',
+          data.mapname,
+          ' by ',
+          data.mapauthor,
+        ].join(''),
+      );
+
+      // only names the room got to see are kept, as they're shown in the map votes list
+      if (!mute && !filtered) this.mapVotes.setMapName(data.m, mapName, mapAuthor);
+
+      this.logEvent('map_request', this.playerInfo[socket.data.bonkId].userName, {
+        mapName: data.mapname,
+        mapAuthor: data.mapauthor,
+        suppressed: mute ? (mute.shadow ? 'shadow-muted' : 'muted') : filtered ? 'filtered' : undefined,
+      });
+    });
+
+    // send friend request
+    socket.on(IN.FRIEND_REQUEST, (data) => {
+      // send friend request packet to the target player
+      this.playerSockets[data.id].emit(OUT.FRIEND_REQUEST, socket.data.bonkId);
+    });
+
+    // set tabbed (afk) state
+    socket.on(IN.SET_TABBED, (data) => {
+      if (typeof data.out !== 'boolean') return;
+
+      this.setTabbed(socket.data.bonkId, data.out);
+    });
+
+    // save replay to main menu
+    socket.on(IN.SAVE_REPLAY, () => {
+      this.namespace.to('main').emit(OUT.SAVE_REPLAY, socket.data.bonkId);
+    });
+
+    // vote the current map
+    socket.on(IN.VOTE_MAP, (data) => {
+      if (this.processRatelimit(socket, 'votingMaps')) return;
+      if (data?.i !== 0 && data?.i !== 1) return;
+
+      const player = this.playerInfo[socket.data.bonkId];
+
+      // anyone can use a guest's username, so only accounts can vote
+      if (player.guest) return;
+
+      this.mapVotes.vote(this.gameSettings.map, player.userName, data.i == 1 ? 1 : -1);
+      this.logEvent('map_vote', player.userName, {
+        map: ManifoldMapVotes.getMapId(this.gameSettings.map),
+        vote: data.i == 1 ? 'like' : 'dislike',
+      });
+    });
+
+    // get the votes of the current map
+    socket.on(IN.GET_MAP_VOTES, () => {
+      if (this.processRatelimit(socket, 'votingMaps')) return;
+
+      socket.emit(OUT.MAP_VOTES, ManifoldMapVotes.tally(this.mapVotes.get(this.gameSettings.map)));
+    });
+
+    // request xp increase
+    socket.on(IN.REQUEST_XP, () => {
+      if (!this.config.xp.enabled) return;
+
+      const player = this.playerInfo[socket.data.bonkId];
+      const now = Date.now();
+
+      // xp can only be gained by accounts playing a game, and only once per cooldown
+      if (player.guest || player.team == 0 || !this.gameInProgress) return;
+      if (now - (socket.data.lastXpGainAt ?? 0) < this.config.xp.cooldown * 1000) return;
+
+      const profile = this.profiles.getOrCreate(player.userName, false);
+      const today = moment.utc(now).format('YYYY-MM-DD');
+
+      if (profile.dailyXp.date !== today) profile.dailyXp = { date: today, amount: 0 };
+
+      const dailyLimit = this.config.xp.dailyLimit;
+      const gainedXp =
+        dailyLimit > 0
+          ? Math.min(this.config.xp.xpPerGain, dailyLimit - profile.dailyXp.amount)
+          : this.config.xp.xpPerGain;
+
+      if (gainedXp <= 0) return;
+
+      socket.data.lastXpGainAt = now;
+
+      const oldLevel = getLevelFromXp(profile.xp);
+
+      profile.xp += gainedXp;
+      profile.dailyXp.amount += gainedXp;
+      this.profiles.scheduleSave();
+
+      socket.emit(OUT.GAINED_XP, { newXP: profile.xp });
+
+      const newLevel = getLevelFromXp(profile.xp);
+
+      if (newLevel > oldLevel && !this.config.restrictions.levels.censorLevels) {
+        player.level = newLevel;
+        this.namespace.to('main').emit(OUT.PLAYER_LEVELED_UP, { sid: socket.data.bonkId, lv: newLevel });
+      }
+    });
+
+    // (unhandled) 51: curate map
+
+    /* #endregion NON-HOST ACTIONS */
+
+    /* #region HOST ACTIONS */
+
+    // lock teams
+    socket.on(IN.LOCK_TEAMS, (data) => {
+      if (this.processRatelimit(socket, 'changingTeams')) return;
+      if (!this.assertPlayerIsHost(socket.data.bonkId)) return;
+
+      this.gameSettings.tl = data.teamLock;
+
+      this.namespace.to('main').emit(OUT.LOCK_TEAMS, data.teamLock);
+    });
+
+    // kick/ban player
+    socket.on(IN.KICK_BAN_PLAYER, (data) => {
+      if (!this.assertPlayerIsHost(socket.data.bonkId)) return;
+
+      if (!this.playerOutranks(socket.data.bonkId, data.banshortid)) {
+        this.sendPlayerStatusMessage(
+          socket.data.bonkId,
+          `You can't kick or ban ${this.playerInfo[data.banshortid].userName}, as they are a ` +
+            `${this.getPlayerRole(data.banshortid)}.`,
+        );
+        return;
+      }
+
+      if (data.kickonly) {
+        this.kickPlayer(data.banshortid, this.playerInfo[socket.data.bonkId].userName);
+      } else {
+        this.banPlayer(data.banshortid, '', this.playerInfo[socket.data.bonkId].userName);
+      }
+    });
+
+    // change mode
+    socket.on(IN.CHANGE_MODE, (data) => {
+      if (this.processRatelimit(socket, 'changingMode')) return;
+      if (!this.assertPlayerIsHost(socket.data.bonkId)) return;
+
+      this.gameSettings.ga = data.ga;
+      this.gameSettings.mo = data.mo;
+
+      this.namespace.to('main').emit(OUT.CHANGE_MODE, data.ga, data.mo);
+      this.logEvent('mode_change', this.playerInfo[socket.data.bonkId].userName, { ga: data.ga, mo: data.mo });
+    });
+
+    // change rounds to win
+    socket.on(IN.CHANGE_ROUNDS, (data) => {
+      if (!this.assertPlayerIsHost(socket.data.bonkId)) return;
+
+      this.gameSettings.wl = data.w;
+
+      this.namespace.to('main').emit(OUT.CHANGE_ROUNDS, data.w);
+    });
+
+    // change current map
+    socket.on(IN.CHANGE_MAP, (data) => {
+      if (this.processRatelimit(socket, 'changingMap')) return;
+      if (!this.assertPlayerIsHost(socket.data.bonkId)) return;
+
+      this.gameSettings.map = data.m;
+
+      this.namespace.to('main').emit(OUT.CHANGE_MAP, data.m);
+      this.logEvent('map_change', this.playerInfo[socket.data.bonkId].userName, { map: data.m });
+      this.server.plugins.runHook('onMapChange', { room: this.id, playerId: socket.data.bonkId, map: data.m });
+    });
+
+    // change someone's team
+    socket.on(IN.CHANGE_OTHER_TEAM, (data) => {
+      if (this.processRatelimit(socket, 'changingTeams')) return;
+      if (!this.assertPlayerIsHost(socket.data.bonkId)) return;
+
+      this.changeTeam(data.targetID, data.targetTeam);
+    });
+
+    // change someone's balance (nerf/buff)
+    socket.on(IN.CHANGE_BALANCE, (data) => {
+      if (!this.assertPlayerIsHost(socket.data.bonkId)) return;
+
+      // change balance in the game settings
+      this.gameSettings.bal[data.sid] = data.bal;
+
+      // send balance change packet to everyone
+      this.namespace.to('main').emit(OUT.CHANGE_BALANCE, data.sid, data.bal);
+    });
+
+    // enable/disable teams
+    socket.on(IN.TOGGLE_TEAMS, (data) => {
+      if (!this.assertPlayerIsHost(socket.data.bonkId)) return;
+
+      // change team enable/disable in the game settings
+      this.gameSettings.tea = data.t;
+
+      // send team enable/disable packet to everyone
+      this.namespace.to('main').emit(OUT.TOGGLE_TEAMS, data.t);
+    });
+
+    // transfer host
+    socket.on(IN.TRANSFER_HOST, (data) => {
+      if (this.processRatelimit(socket, 'transferringHost')) return;
+      if (!this.assertPlayerIsHost(socket.data.bonkId)) return;
+
+      const oldHostId = this.hostId;
+
+      // change host id
+      this.hostId = data.id;
+      this.noHostSwap = false;
+      this.state.pendingHost = null;
+
+      // send host change packet to everyone
+      this.namespace.to('main').emit(OUT.TRANSFER_HOST, { oldHost: oldHostId, newHost: this.hostId });
+
+      // log host transfer message
+      this.logChatMessage(`* ${this.playerInfo[this.hostId].userName} is now the game host`);
+      this.logEvent('host_transfer', this.playerInfo[this.hostId].userName, {
+        from: this.playerInfo[oldHostId].userName,
+        by: 'host',
+      });
+    });
+
+    // send countdown "starting in" message
+    socket.on(IN.SEND_COUNTDOWN_STARTING, (data) => {
+      if (this.processRatelimit(socket, 'startGameCountdown')) return;
+      if (!this.assertPlayerIsHost(socket.data.bonkId)) return;
+
+      this.namespace.to('main').emit(OUT.SEND_COUNTDOWN_STARTING, data.num);
+    });
+
+    // send countdown "aborted" message
+    socket.on(IN.SEND_COUNTDOWN_ABORTED, () => {
+      if (this.processRatelimit(socket, 'startGameCountdown')) return;
+      if (!this.assertPlayerIsHost(socket.data.bonkId)) return;
+
+      this.namespace.to('main').emit(OUT.SEND_COUNTDOWN_ABORTED);
+    });
+
+    // keep host privileges from being passed on when the host leaves
+    socket.on(IN.NO_HOST_SWAP, () => {
+      if (this.processRatelimit(socket, 'transferringHost')) return;
+      if (!this.assertPlayerIsHost(socket.data.bonkId)) return;
+
+      this.noHostSwap = true;
+    });
+
+    // change room name
+    socket.on(IN.CHANGE_ROOM_NAME, (data) => {
+      if (this.processRatelimit(socket, 'changingRoomSettings')) return;
+      if (!this.assertPlayerIsHost(socket.data.bonkId)) return;
+      if (typeof data?.newName !== 'string' || !data.newName) return;
+
+      if (!this.config.hostRoomSettings.allowChangingName) {
+        // undo the change on the host's side
+        socket.emit(OUT.CHANGE_ROOM_NAME, this.roomName);
+        this.sendPlayerStatusMessage(socket.data.bonkId, "* The host isn't allowed to change the room's name.");
+        return;
+      }
+
+      this.setRoomName(data.newName);
+      this.logChatMessage(
+        `* ${this.playerInfo[socket.data.bonkId].userName} changed the room's name to ${data.newName}`,
+      );
+    });
+
+    // change room password
+    socket.on(IN.CHANGE_ROOM_PASSWORD, (data) => {
+      if (this.processRatelimit(socket, 'changingRoomSettings')) return;
+      if (!this.assertPlayerIsHost(socket.data.bonkId)) return;
+      if (typeof data?.newPass !== 'string') return;
+
+      if (!this.config.hostRoomSettings.allowChangingPassword) {
+        socket.emit(OUT.CHANGE_ROOM_PASSWORD, this.password ? 1 : 0);
+        this.sendPlayerStatusMessage(socket.data.bonkId, "* The host isn't allowed to change the room's password.");
+        return;
+      }
+
+      // an empty password removes the password
+      this.setRoomPassword(data.newPass || null);
+      this.logChatMessage(
+        `* ${this.playerInfo[socket.data.bonkId].userName} ${data.newPass ? 'changed' : 'removed'} the room's password`,
+      );
+    });
+
+    /* #endregion HOST ACTIONS */
+
+    /* #region IN-GAME ACTIONS */
+
+    // send inputs
+    socket.on(IN.SEND_INPUTS, (data) => {
+      if (!this.inputGuard.checkInputs(socket.data.bonkId, data)) return;
+
+      socket.broadcast.emit(OUT.SEND_INPUTS, socket.data.bonkId, data);
+      this.recorder.recordEvent('inputs', socket.data.bonkId, data);
+    });
+
+    // host start game
+    socket.on(IN.START_GAME, (data) => {
+      if (this.processRatelimit(socket, 'startingEndingGame')) return;
+      if (!this.assertPlayerIsHost(socket.data.bonkId)) return;
+
+      // starting a new game ends the current one, if any
+      this.endGame();
+
+      this.gameSettings = data.gs;
+      this.gameStartTime = Date.now();
+      this.gameInProgress = true;
+      this.server.metrics?.record('manifold_games_started_total', this);
+
+      this.namespace.to('main').emit(OUT.START_GAME, this.gameStartTime, data.is, data.gs);
+      this.recorder.start(data.is, data.gs);
+
+      // spectators don't count as having played the game
+      for (let i = 0; i < this.playerInfo.length; i++) {
+        if (this.playerInfo[i] && this.playerInfo[i].team != 0) {
+          this.updateProfile(i, (profile) => profile.gamesPlayed++);
+        }
+      }
+      const players = this.playerInfo.filter((player) => player && player.team != 0).map((player) => player.userName);
+
+      this.logEvent('game_start', this.playerInfo[socket.data.bonkId].userName, {
+        mode: { ga: data.gs.ga, mo: data.gs.mo },
+        players,
+      });
+      this.server.plugins.runHook('onGameStart', {
+        room: this.id,
+        playerId: socket.data.bonkId,
+        userName: this.playerInfo[socket.data.bonkId].userName,
+        gameSettings: this.gameSettings,
+        players,
+      });
+    });
+
+    // host end game
+    socket.on(IN.RETURN_TO_LOBBY, () => {
+      if (this.processRatelimit(socket, 'startingEndingGame')) return;
+      if (!this.assertPlayerIsHost(socket.data.bonkId)) return;
+      if (!this.gameInProgress) return;
+
+      this.namespace.to('main').emit(OUT.RETURN_TO_LOBBY);
+      this.endGame();
+      this.logEvent('return_to_lobby', this.playerInfo[socket.data.bonkId].userName, {
+        gameLength: Date.now() - this.gameStartTime,
+      });
+      this.recorder.stop();
+      this.playlist.advance();
+    });
+
+    /* #endregion IN-GAME ACTIONS */
+
+    socket.on('disconnect', () => {
+      if (socket.data.bonkId === undefined) return;
+
+      const leavingPlayerId = socket.data.bonkId;
+      const leavingPlayerName = this.playerInfo[leavingPlayerId].userName;
+
+      // this is the amount of game ticks (bonk runs at 30tps) at which the player left
+      const tickCount = Math.round((Date.now() - this.gameStartTime) / (1000 / 30));
+
+      this.logEvent('leave', leavingPlayerName, { id: leavingPlayerId, address: socket.handshake.address });
+      this.server.plugins.runHook('onLeave', { room: this.id, playerId: leavingPlayerId, userName: leavingPlayerName });
+      this.recorder.recordEvent('leave', leavingPlayerId);
+      this.updateProfile(leavingPlayerId, (profile) => {
+        profile.playtime += Date.now() - socket.data.joinedAt;
+        profile.lastSeen = Date.now();
+      });
+
+      const leavingPlayerIsHost = this.assertPlayerIsHost(socket.data.bonkId, false);
+
+      if (this.config.autoAssignHost && !this.noHostSwap && leavingPlayerIsHost) {
+        const newHostId = this.playerSockets.findIndex((i) => i && this.hostId != i.data.bonkId);
+
+        // log disconnect message
+        if (newHostId == -1) {
+          this.logChatMessage(`* ${leavingPlayerName} left the game`);
+        } else {
+          this.logChatMessage(
+            `* ${leavingPlayerName} left the game and ${this.playerInfo[newHostId].userName} is now the game host`,
+          );
+        }
+
+        this.hostId = newHostId;
+        if (newHostId != -1) {
+          this.logEvent('host_transfer', this.playerInfo[newHostId].userName, {
+            from: leavingPlayerName,
+            by: 'server',
+          });
+        }
+
+        this.namespace.to('main').emit(OUT.HOST_LEFT, socket.data.bonkId, newHostId, tickCount);
+      } else {
+        if (leavingPlayerIsHost) this.hostId = -1;
+
+        // log disconnect message
+        this.logChatMessage(`* ${leavingPlayerName} left the game`);
+
+        this.namespace.to('main').emit(OUT.PLAYER_LEFT, socket.data.bonkId, tickCount);
+      }
+
+      if (leavingPlayerIsHost) this.noHostSwap = false;
+
+      delete this.playerInfo[socket.data.bonkId];
+      delete this.playerSockets[socket.data.bonkId];
+      this.chatFilter.forgetPlayer(socket.data.bonkId);
+      this.inputGuard.forgetPlayer(socket.data.bonkId);
+
+      this.playerAmount--;
+
+      // there's no game left once everyone leaves
+      if (this.playerAmount <= 0) {
+        this.endGame();
+        this.recorder.stop();
+      }
+
+      if (this.playerAmount <= 0 && this.closed) {
+        console.log(`Everyone has left the room "${this.id}".`);
+        this.saveChatLog();
+        this.server.closeIfAllRoomsClosed();
+      }
+    });
+  }
+}
@@ -0,0 +1,137 @@
+import fs from 'fs';
+
+import ManifoldRoom from './room';
+import { RoomStateSnapshot } from './types';
+
+/**
+ * Periodic snapshots of the state of a room (name, password, game settings, host and teams), saved to the
+ * `roomstate.json` file of the room so that the room can pick up where it left off after a restart. Players who were
+ * in the room get their team (and the host their host privileges) back when they rejoin.
+ */
+export default class ManifoldRoomState {
+  public room: ManifoldRoom;
+  public filePath: string;
+
+  /**
+   * Teams of the players who were in the room before a restart and haven't rejoined yet (by username).
+   */
+  public pendingTeams: Record<string, number> = {};
+  /**
+   * Username of the player who was the host before a restart, if they haven't rejoined yet.
+   */
+  public pendingHost: string | null = null;
+
+  /**
+   * Last snapshot written to the file, used to skip writing snapshots that didn't change.
+   */
+  private lastSnapshot: string = '';
+  private saveInterval?: NodeJS.Timeout;
+  /**
+   * `true` once the room has stopped taking snapshots, which happens when the server shuts down.
+   */
+  private stopped: boolean = false;
+
+  constructor(room: ManifoldRoom) {
+    this.room = room;
+    this.filePath = room.getDataPath('roomstate.json');
+
+    if (this.config.enabled && fs.existsSync(this.filePath)) {
+      this.lastSnapshot = fs.readFileSync(this.filePath, { encoding: 'utf8' });
+      const snapshot: RoomStateSnapshot = JSON.parse(this.lastSnapshot);
+
+      room.roomName = snapshot.roomName;
+      room.password = snapshot.password;
+      room.gameSettings = snapshot.gameSettings;
+
+      this.pendingTeams = snapshot.teams;
+      this.pendingHost = snapshot.host;
+    }
+
+    // an interval of 0 or less would take snapshots nonstop, so the room only takes its last snapshot on shutdown
+    if (this.config.saveInterval > 0) {
+      this.saveInterval = setInterval(() => this.save(), this.config.saveInterval * 1000);
+    }
+  }
+
+  get config() {
+    return this.room.config.roomState;
+  }
+
+  getSnapshot(): RoomStateSnapshot {
+    const room = this.room;
+    const host = room.playerInfo[room.hostId];
+    const teams = { ...this.pendingTeams };
+
+    for (const player of room.playerInfo) {
+      if (player && !player.guest) teams[player.userName] = player.team;
+    }
+
+    return {
+      roomName: room.roomName,
+      password: room.password,
+      gameSettings: room.gameSettings,
+      host: host ? (host.guest ? null : host.userName) : this.pendingHost,
+      teams,
+    };
+  }
+
+  /**
+   * Write a snapshot of the room's state to the file, if it changed since the last one.
+   */
+  save() {
+    if (!this.config.enabled || this.stopped) return;
+
+    const snapshot = JSON.stringify(this.getSnapshot());
+    if (snapshot === this.lastSnapshot) return;
+
+    fs.writeFileSync(this.filePath, snapshot, { encoding: 'utf8' });
+    this.lastSnapshot = snapshot;
+  }
+
+  /**
+   * Take a last snapshot and stop taking them, so that players leaving while the server shuts down are still part of
+   * the saved state.
+   */
+  stop() {
+    this.save();
+    this.stopped = true;
+
+    clearInterval(this.saveInterval);
+  }
+
+  /**
+   * Get the team a player had before a restart, if it's still valid with the current game settings. The team is only
+   * given back once.
+   */
+  takeTeam(username: string, guest: boolean): number | undefined {
+    const team = this.pendingTeams[username];
+    if (guest || team === undefined) return undefined;
+
+    delete this.pendingTeams[username];
+
+    // teams 2 to 5 only exist while teams are enabled, and free for all (1) only while they're disabled
+    const validTeams = this.room.gameSettings.tea ? [0, 2, 3, 4, 5] : [0, 1];
+    return validTeams.includes(team) ? team : undefined;
+  }
+
+  /**
+   * Check whether a player was the host before a restart and should get their host privileges back.
+   */
+  takeHost(username: string, guest: boolean): boolean {
+    if (guest || !this.config.restoreHost || this.pendingHost !== username) return false;
+
+    this.pendingHost = null;
+    return true;
+  }
+
+  /**
+   * Forget the saved state, including the teams and host of players who haven't rejoined yet.
+   */
+  reset() {
+    this.pendingTeams = {};
+    this.pendingHost = null;
+    this.lastSnapshot = '';
+
+    if (fs.existsSync(this.filePath)) fs.unlinkSync(this.filePath);
+  }
+}
@@ -6,62 +6,98 @@ import socketIO from 'socket.io';
 import fs from 'fs';
 
 import ManifoldTerminal from './terminal';
-
-import * as IN from './inPacketIds';
-import * as OUT from './outPacketIds';
-import { BanList, Config, GameSettings, Player, RatelimitRestrictions } from './types';
-import moment from 'moment';
-
-const ratelimitMessages: Record<string, string> = {
-  joining: 'join_rate_limited',
-  chatting: 'chat_rate_limit',
-  changingTeams: 'rate_limit_teams',
-  readying: 'rate_limit_ready',
-  transferringHost: 'host_change_rate_limited',
-};
+import ManifoldRoom from './room';
+import ManifoldAdminApi from './adminApi';
+import ManifoldDashboard from './dashboard';
+import ManifoldMetrics from './metrics';
+import ManifoldWebhooks from './webhooks';
+import ManifoldChatBridge from './chatBridge';
+import ManifoldPlugins from './plugins';
+import * as actions from './adminActions';
+import { diffConfig, findConfigFile, getConfigOptions, getSetting, loadConfig, setSetting } from './configLoader';
+
+import { Config } from './types';
+
+/**
+ * Paths used by the server itself, which rooms can't use as their id.
+ */
+const reservedRoomIds = ['api', 'admin', 'metrics', 'bridge'];
+
+/**
+ * Settings that belong to the server as a whole rather than to its rooms.
+ */
+const serverSettings = [
+  'port',
+  'useHttps',
+  'watchConfigFile',
+  'adminApi',
+  'dashboard',
+  'metrics',
+  'webhooks',
+  'chatBridge',
+  'plugins',
+];
+
+/**
+ * Settings that are only read when the server starts, which keep their current values when the config is reloaded.
+ */
+const restartOnlySettings = [
+  'port',
+  'useHttps',
+  'watchConfigFile',
+  'maxPlayers',
+  'roomState.saveInterval',
+  'adminApi.enabled',
+  'dashboard.enabled',
+  'metrics.enabled',
+  'chatBridge.enabled',
+  'plugins.enabled',
+  'plugins.directory',
+];
+
+export interface ConfigReloadReport {
+  /**
+   * Paths of the settings whose new values are now in use.
+   */
+  applied: string[];
+  /**
+   * Paths of the settings that changed but kept their current values, as they can only change on a restart.
+   */
+  skipped: string[];
+}
 
 export default class ManifoldServer {
   public config;
+  /**
+   * Config the server's config was loaded on top of, used when reloading it.
+   */
+  public defaultConfig: Config;
 
   public server: http.Server | https.Server;
   public expressApp: express.Application;
   public io: socketIO.Server;
 
   public terminal: ManifoldTerminal;
-
-  public playerInfo: Player[] = [];
-  public playerSockets: socketIO.Socket[] = [];
-  public ratelimits: Record<string, Record<string, number>> = {};
-  public banList: BanList;
-  public chatLog: string = '';
-
-  public hostId: number = -1;
-  public gameStartTime: number = 0;
-  public gameSettings: GameSettings;
-
-  public roomName: string;
-  public password: string | null;
-  public playerAmount: number = 0;
-  public closed: boolean = false;
-  public scheduledForceStopTimeout?: NodeJS.Timeout;
-
-  constructor(config: Config) {
+  public adminApi?: ManifoldAdminApi;
+  public dashboard?: ManifoldDashboard;
+  public metrics?: ManifoldMetrics;
+  public webhooks: ManifoldWebhooks;
+  public chatBridge?: ManifoldChatBridge;
+  public plugins: ManifoldPlugins;
+
+  public rooms: ManifoldRoom[] = [];
+
+  /**
+   * `true` once the server has started shutting down.
+   */
+  public shuttingDown: boolean = false;
+  private shutdownStartedAt: number = 0;
+
+  constructor(config: Config, defaultConfig: Config = config) {
     this.config = config;
+    this.defaultConfig = defaultConfig;
 
-    this.gameSettings = this.config.defaultGameSettings;
-    this.roomName = this.config.roomNameOnStartup;
-    this.password = this.config.roomPasswordOnStartup;
-
-    this.terminal = new ManifoldTerminal(this);
-
-    // gather ban list
-    if (fs.existsSync('./banlist.json')) {
-      this.banList = JSON.parse(fs.readFileSync('./banlist.json', { encoding: 'utf8' }));
-    } else {
-      this.banList = { addresses: [], usernames: [] };
-    }
-
-    // init http server and metadata endpoint
+    // init http server
     this.expressApp = express();
     if (this.config.useHttps) {
       if (!fs.existsSync('server-key.pem') || !fs.existsSync('server-cert.pem')) {
@@ -88,20 +124,7 @@ export default class ManifoldServer {
       }),
     );
 
-    this.expressApp.get('/', (_req, res) => {
-      res.json({
-        isBonkServer: true,
-        roomname: this.roomName,
-        password: this.password ? 1 : 0,
-        players: this.playerAmount,
-        maxplayers: this.config.maxPlayers,
-        mode_ga: this.gameSettings.ga,
-        mode_mo: this.gameSettings.mo,
-        closed: this.closed,
-      });
-    });
-
-    // init socket.io server and register socket connection events
+    // init socket.io server
     this.io = new socketIO.Server(this.server, {
       allowEIO3: true,
       cors: {
@@ -112,642 +135,275 @@ export default class ManifoldServer {
       transports: ['websocket', 'polling'],
     });
 
-    this.io.on('connection', (socket) => {
-      // timesync packet handling
-      socket.conn.on('packet', (packet) => {
-        if (/[0-9]\[18/.test(packet.data)) {
-          const infoString = packet.data.replace(/.*(\{.+\})\]/, '$1');
-          const timeSyncInfo = JSON.parse(infoString);
-
-          socket.emit(OUT.REPLY_TIMESYNC, {
-            id: timeSyncInfo.id,
-            result: Date.now(),
-          });
-        }
-      });
-
-      // new player joins the room and sends this packet
-      socket.on(IN.JOIN_REQUEST, (playerData) => {
-        /* #region JOIN RESTRICTIONS */
+    // webhooks are set up before the rooms, as rooms send events as soon as they're created
+    this.webhooks = new ManifoldWebhooks(this);
+    this.plugins = new ManifoldPlugins(this);
 
-        // server closed check
-        if (this.closed) {
-          socket.emit(OUT.ERROR_MESSAGE, 'closed');
-          return;
-        }
-
-        // banned check
-        if (this.banList.addresses.includes(socket.handshake.address)) {
-          socket.emit(OUT.ERROR_MESSAGE, 'banned');
-          return;
-        }
-
-        // already joined check
-        if (socket.data.bonkId !== undefined) return;
+    // create rooms. if no rooms are specified, a single room that uses the settings at the root of the config is made
+    const roomConfigs = this.config.rooms.length > 0 ? this.config.rooms : [{ id: 'main' }];
 
-        // join ratelimit check
-        if (this.processRatelimit(socket, 'joining')) return;
-
-        // username duplicate check
-        if (config.restrictions.usernames.noDuplicates) {
-          for (const player of this.playerInfo) {
-            if (!player) continue;
-
-            if (player.userName === playerData.userName) {
-              socket.emit(OUT.ERROR_MESSAGE, 'already_in_this_room');
-              return;
-            }
-          }
-        }
-
-        // username length check
-        if (playerData.userName.length > config.restrictions.usernames.maxLength) {
-          socket.emit(OUT.ERROR_MESSAGE, 'username_too_long');
-          return;
-        }
-
-        // empty username check
-        if (config.restrictions.usernames.noEmptyNames && !playerData.userName) {
-          socket.emit(OUT.ERROR_MESSAGE, 'username_empty');
-          return;
-        }
-
-        // username regex check
-        if (config.restrictions.usernames.disallowRegex.test(playerData.userName)) {
-          socket.emit(OUT.ERROR_MESSAGE, 'username_invalid');
-          return;
-        }
-
-        // min level check
-        if (this.config.restrictions.levels.minLevel > 0 && playerData.guest) {
-          socket.emit(OUT.ERROR_MESSAGE, 'guests_not_allowed');
-          return;
-        }
-
-        if (playerData.level < this.config.restrictions.levels.minLevel) {
-          socket.emit(OUT.ERROR_MESSAGE, 'players_xp_too_low');
-          return;
-        }
-
-        // max level check
-        if (playerData.level > this.config.restrictions.levels.maxLevel) {
-          socket.emit(OUT.ERROR_MESSAGE, 'players_xp_too_high');
-          return;
-        }
-
-        // numeric level check
-        if (this.config.restrictions.levels.onlyAllowNumbers && /[^0-9]/.test(playerData.level)) {
-          socket.emit(OUT.ERROR_MESSAGE, 'player_xp_invalid');
-          return;
-        }
-
-        // password check
-        if (this.password && playerData.roomPassword !== this.password) {
-          socket.emit(OUT.ERROR_MESSAGE, 'password_wrong');
-          return;
-        }
-
-        // max players check
-        if (this.playerAmount == config.maxPlayers) {
-          socket.emit(OUT.ERROR_MESSAGE, 'room_full');
-          return;
-        }
-
-        /* #endregion JOIN RESTRICTIONS */
-
-        this.registerSocketEvents(socket);
-        socket.join('main');
-
-        // assign id to new player and store it in the socket
-        socket.data = {
-          bonkId: this.playerInfo.length,
-        };
-
-        // add new player to the player socket and info lists
-        this.playerSockets[socket.data.bonkId] = socket;
-        this.playerInfo[socket.data.bonkId] = {
-          peerId: 'invalid',
-          userName: playerData.userName,
-          guest: playerData.guest,
-          team: this.gameSettings.tl ? 0 : 1,
-          level: this.config.restrictions.levels.censorLevels ? '-' : playerData.level,
-          ready: false,
-          tabbed: false,
-          avatar: playerData.avatar,
-        };
-
-        this.playerAmount++;
-
-        // emit initial lobby info to new player
-        socket.emit(
-          OUT.SERVER_INFORM,
-          socket.data.bonkId,
-          this.playerInfo[this.hostId] ? this.hostId : config.autoAssignHost ? socket.data.bonkId : -1,
-          this.playerInfo,
-          this.gameStartTime,
-          this.gameSettings.tl,
-          0,
-          'invalid',
-          null,
-        );
-
-        // notify everyone (but the new player) about the join
-        socket.broadcast.emit(
-          OUT.PLAYER_JOINED,
-          socket.data.bonkId,
-          'invalid',
-          playerData.userName,
-          playerData.guest,
-          playerData.level,
-          this.gameSettings.tl ? 0 : 1,
-          playerData.avatar,
-        );
+    for (const roomConfig of roomConfigs) {
+      if (
+        !/^[A-Za-z0-9_-]+$/.test(roomConfig.id) ||
+        reservedRoomIds.includes(roomConfig.id) ||
+        this.getRoom(roomConfig.id)
+      ) {
+        console.log(`Room id "${roomConfig.id}" is invalid or duplicated. Cannot start server.`);
+        process.exit(0);
+      }
 
-        // log join message
-        this.logChatMessage(`* ${playerData.userName} joined the game`);
+      this.rooms.push(new ManifoldRoom(this, roomConfig, this.rooms.length == 0));
+    }
 
-        // if there's no host in the room, pretend to be the host and
-        // send the "inform in lobby" packet. if autoAssignHost is on,
-        // make the new player a host
-        if (!this.playerInfo[this.hostId]) {
-          if (config.autoAssignHost) this.hostId = socket.data.bonkId;
-          socket.emit(OUT.HOST_INFORM_IN_LOBBY, this.gameSettings);
-        }
+    // metadata endpoints. the root endpoint shows the default room's metadata (which is what the client expects to
+    // find there) along with a list of every room in the server
+    this.expressApp.get('/', (_req, res) => {
+      res.json({
+        ...this.rooms[0].getMetadata(),
+        rooms: this.rooms.map((room) => room.getMetadata()),
       });
     });
 
-    // start the server and the terminal
-    this.server.listen(3000, () => {
-      this.terminal.start();
-    });
-  }
-
-  processRatelimit(socket: socketIO.Socket, actionType: keyof RatelimitRestrictions) {
-    const socketAddress = socket.handshake.address;
-    const ratelimitOptions = this.config.restrictions.ratelimits[actionType as keyof RatelimitRestrictions];
-
-    this.ratelimits[socketAddress] ??= {};
-    const socketRatelimits = this.ratelimits[socketAddress];
+    for (const room of this.rooms) {
+      if (room.isDefault) continue;
 
-    socketRatelimits[actionType] ??= 0;
-
-    // if this is the first recorded instance of the action within the timeframe, start a timer that resets the
-    // action recorder after the timeframe passes (unless it reaches the ratelimit within the timeframe)
-    if (socketRatelimits[actionType] == 0) {
-      setTimeout(() => {
-        if (socketRatelimits[actionType] < ratelimitOptions.amount) {
-          socketRatelimits[actionType] = 0;
-        }
-      }, ratelimitOptions.timeframe * 1000);
+      this.expressApp.get(room.path, (_req, res) => {
+        res.json(room.getMetadata());
+      });
     }
 
-    socketRatelimits[actionType]++;
-
-    // if the ratelimit is reached, start a timer that resets the action recorder after the restore time passes
-    if (socketRatelimits[actionType] == ratelimitOptions.amount) {
-      setTimeout(() => {
-        socketRatelimits[actionType] = 0;
-      }, ratelimitOptions.restore * 1000);
+    // init admin api
+    if (this.config.adminApi.enabled) {
+      if (this.config.adminApi.token) {
+        this.adminApi = new ManifoldAdminApi(this);
+        this.expressApp.use('/api', this.adminApi.router);
+      } else {
+        console.log('The admin API is enabled but no token has been set. The admin API will stay disabled.');
+      }
     }
 
-    // if the ratelimit has been reached, send a ratelimit error message to the socket and return true, otherwise just
-    // return false
-    if (socketRatelimits[actionType] >= ratelimitOptions.amount) {
-      socket.emit(OUT.ERROR_MESSAGE, ratelimitMessages[actionType]);
-
-      return true;
-    } else {
-      return false;
+    // init admin dashboard
+    if (this.config.dashboard.enabled) {
+      if (this.config.dashboard.password) {
+        this.dashboard = new ManifoldDashboard(this);
+      } else {
+        console.log('The admin dashboard is enabled but no password has been set. The dashboard will stay disabled.');
+      }
     }
-  }
 
-  assertPlayerIsHost(playerId: number, shouldErrorMessage: boolean = true): boolean {
-    if (playerId == this.hostId) return true;
-
-    if (shouldErrorMessage) {
-      this.playerSockets[playerId].emit(OUT.ERROR_MESSAGE, 'not_hosting');
+    // init metrics endpoint
+    if (this.config.metrics.enabled) {
+      if (this.config.metrics.token || this.config.metrics.allowedAddresses.length > 0) {
+        this.metrics = new ManifoldMetrics(this);
+      } else {
+        console.log(
+          'The metrics endpoint is enabled but neither a token nor allowed addresses have been set. The metrics ' +
+            'endpoint will stay disabled.',
+        );
+      }
     }
 
-    return false;
-  }
-
-  logChatMessage(content: string) {
-    this.chatLog += `[${moment().format(this.config.timeStampFormat)}] ${content}\n`;
-  }
-
-  sendChatStatusMessage(message: string) {
-    this.io.to('main').emit(OUT.MANIFOLD_CHAT_STATUS, message, '#b53030');
-    this.logChatMessage(message);
-  }
-
-  saveChatLog() {
-    if (this.chatLog == '') return;
+    // init chat bridge
+    if (this.config.chatBridge.enabled) {
+      if (this.config.chatBridge.token) {
+        this.chatBridge = new ManifoldChatBridge(this);
+      } else {
+        console.log('The chat bridge is enabled but no token has been set. The chat bridge will stay disabled.');
+      }
+    }
 
-    if (!fs.existsSync('./chatlogs')) fs.mkdirSync('./chatlogs');
-    fs.writeFileSync(`./chatlogs/${moment().format(this.config.timeStampFormat)}.txt`, this.chatLog);
-    this.chatLog = '';
-  }
+    // plugins are loaded once every room exists, and before the terminal starts so that their commands are available
+    this.plugins.load();
 
-  transferHost(id: number) {
-    const oldHostId = this.hostId;
-    this.hostId = id;
+    this.terminal = new ManifoldTerminal(this);
 
-    // send host change packet to everyone
-    this.io.to('main').emit(OUT.TRANSFER_HOST, { oldHost: -1, newHost: this.hostId });
+    if (this.config.watchConfigFile) this.watchConfigFile();
 
-    // log host transfer message
-    if (id == -1) {
-      this.io.to('main').emit(OUT.RETURN_TO_LOBBY);
-      this.sendChatStatusMessage(
-        `* ${this.playerInfo[oldHostId].userName} had their host privileges taken away by the server, making the room hostless.`,
-      );
-    } else if (oldHostId == -1) {
-      this.sendChatStatusMessage(`* ${this.playerInfo[id].userName} is now the game host.`);
-    } else {
-      this.sendChatStatusMessage(
-        `* Server has taken host privileges from ${this.playerInfo[oldHostId].userName}, and ${this.playerInfo[id].userName} is now the game host.`,
-      );
+    // hosting services send these signals to stop the server (or to restart it, when redeploying)
+    for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+      process.on(signal, () => this.handleSignal(signal));
     }
-  }
-
-  banPlayer(id: number) {
-    this.banList.addresses.push(this.playerSockets[id].handshake.address);
-    this.banList.usernames.push(this.playerInfo[id].userName);
 
-    fs.writeFileSync('./banlist.json', JSON.stringify(this.banList), {
-      encoding: 'utf8',
+    // start the server and the terminal
+    this.server.listen(this.config.port, () => {
+      this.terminal.start();
     });
-
-    this.logChatMessage(`${this.playerInfo[id].userName} was banned from the server`);
-    this.playerSockets[id].disconnect();
   }
 
-  kickPlayer(id: number) {
-    this.logChatMessage(`${this.playerInfo[id].userName} was kicked from the server`);
-    this.playerSockets[id].disconnect();
-  }
-
-  scheduledClose(timeUntilForceStop?: number): string | undefined {
-    this.closed = true;
-
-    this.hostId = -1;
-    this.io.to('main').emit(OUT.TRANSFER_HOST, { oldHost: -1, newHost: -1 });
-
-    this.io.to('main').emit(OUT.RETURN_TO_LOBBY);
-
-    if (timeUntilForceStop) {
-      const forceStopTime = moment().add(timeUntilForceStop, 'minutes');
-
-      this.scheduledForceStopTimeout = setTimeout(() => {
-        console.log('Scheduled close time limit reached. Closing...');
-        this.saveChatLog();
-        process.exit(0);
-      }, timeUntilForceStop * 60000);
-
-      this.sendChatStatusMessage(
-        `* The server has been closed. Player entry is now prohibited, and the server will shut down ${forceStopTime.fromNow()}, or as soon as everyone leaves the room.`,
-      );
-
-      return forceStopTime.fromNow();
-    } else {
-      this.sendChatStatusMessage(
-        '* The server has been closed. Player entry is now prohibited, and as soon as everyone leaves the room, the server will shut down.',
-      );
-    }
+  getRoom(id: string): ManifoldRoom | undefined {
+    return this.rooms.find((room) => room.id === id);
   }
 
-  abortScheduledClose() {
-    this.closed = false;
+  /**
+   * Load the config again and apply the changes to the server and every room, without restarting. Settings that can
+   * only change on a restart keep their current values. Throws a `ConfigError` if the new config isn't valid.
+   */
+  reloadConfig(): ConfigReloadReport {
+    const report: ConfigReloadReport = { applied: [], skipped: [] };
+    let newConfig = loadConfig(this.defaultConfig);
 
-    clearTimeout(this.scheduledForceStopTimeout);
+    for (const setting of diffConfig(this.config, newConfig)) {
+      if (!serverSettings.includes(setting.split('.')[0])) continue;
 
-    this.sendChatStatusMessage(
-      '* The server has been re-opened! Player entry is no longer prohibited and the server will no longer automatically shut down.',
-    );
-
-    if (this.config.autoAssignHost) {
-      const newHostId = this.playerSockets.findIndex((i) => i && this.hostId != i.data.bonkId);
-
-      if (newHostId != -1) {
-        this.transferHost(newHostId);
+      if (restartOnlySettings.includes(setting)) {
+        newConfig = setSetting(newConfig, setting, getSetting(this.config, setting));
+        report.skipped.push(setting);
+      } else {
+        report.applied.push(setting);
       }
     }
-  }
-
-  registerSocketEvents(socket: socketIO.Socket) {
-    /* #region JOIN HANDLERS */
-
-    // "inform in lobby" packet
-    socket.on(IN.HOST_INFORM_IN_LOBBY, (data) => {
-      if (!this.assertPlayerIsHost(socket.data.bonkId)) return;
-      this.playerSockets[data.sid].emit(OUT.HOST_INFORM_IN_LOBBY, data.gs);
-    });
-
-    // "inform in game" packet
-    socket.on(IN.HOST_INFORM_IN_GAME, (data) => {
-      if (!this.assertPlayerIsHost(socket.data.bonkId)) return;
-      this.playerSockets[data.sid].emit(OUT.HOST_INFORM_IN_GAME, data.allData);
-    });
-
-    /* #endregion JOIN HANDLERS */
-
-    /* #region NON-HOST ACTIONS */
-
-    // change own team
-    socket.on(IN.CHANGE_OWN_TEAM, (data) => {
-      if (this.processRatelimit(socket, 'changingTeams')) return;
-
-      if (this.gameSettings.tl && !this.assertPlayerIsHost(socket.data.bonkId)) return;
 
-      // change team in the player list
-      this.playerInfo[socket.data.bonkId].team = data.targetTeam;
+    const roomConfigs = newConfig.rooms.length > 0 ? newConfig.rooms : [{ id: 'main' }];
 
-      // send team change packet to everyone
-      this.io.to('main').emit(OUT.CHANGE_TEAM, socket.data.bonkId, data.targetTeam);
-    });
-
-    // send chat message
-    socket.on(IN.CHAT_MESSAGE, (data) => {
-      if (this.processRatelimit(socket, 'chatting')) return;
-
-      // limit message length
-      data.message = data.message.slice(0, this.config.restrictions.maxChatMessageLength);
-
-      // send chat message to everyone
-      this.io.to('main').emit(OUT.CHAT_MESSAGE, socket.data.bonkId, data.message);
-
-      // log chat message
-      this.logChatMessage([this.playerInfo[socket.data.bonkId].userName, ': ', data.message].join(''));
-    });
-
-    // set own ready state
-    socket.on(IN.SET_READY, (data) => {
-      if (this.processRatelimit(socket, 'readying')) return;
-      if (typeof data.ready !== 'boolean') return;
-
-      this.playerInfo[socket.data.bonkId].ready = data.ready;
-
-      // send ready state to everyone
-      this.io.to('main').emit(OUT.SET_READY, socket.data.bonkId, data.ready);
-    });
-
-    // send map request
-    socket.on(IN.MAP_REQUEST, (data) => {
-      if (this.processRatelimit(socket, 'chatting')) return;
+    for (const roomConfig of roomConfigs) {
+      if (!this.getRoom(roomConfig.id)) report.skipped.push(`rooms (new room "${roomConfig.id}")`);
+    }
 
-      if (this.hostId == -1) {
-        this.io.emit(OUT.MAP_REQUEST_NON_HOST, data.mapname, data.mapauthor, socket.data.bonkId);
-      } else {
-        // send map request packet to everyone but the host (only contains metadata of the map)
-        this.playerSockets[this.hostId].broadcast.emit(
-          OUT.MAP_REQUEST_NON_HOST,
-          data.mapname,
-          data.mapauthor,
-          socket.data.bonkId,
-        );
+    for (const room of this.rooms) {
+      const roomConfig = roomConfigs.find((i) => i.id === room.id);
 
-        // send map request packet to host (contains the actual map)
-        this.playerSockets[this.hostId].emit(OUT.MAP_REQUEST_HOST, data.m, socket.data.bonkId);
+      if (!roomConfig) {
+        report.skipped.push(`rooms (removed room "${room.id}")`);
+        continue;
       }
 
-      // log map request
-      this.logChatMessage(
-        [
-          '* ',
-          this.playerInfo[socket.data.bonkId].userName,
-          ' has requested the map ',
-          data.mapname,
-          ' by ',
-          data.mapauthor,
-        ].join(''),
-      );
-    });
-
-    // send friend request
-    socket.on(IN.FRIEND_REQUEST, (data) => {
-      // send friend request packet to the target player
-      this.playerSockets[data.id].emit(OUT.FRIEND_REQUEST, socket.data.bonkId);
-    });
-
-    // set tabbed (afk) state
-    socket.on(IN.SET_TABBED, (data) => {
-      if (typeof data.out !== 'boolean') return;
-
-      this.playerInfo[socket.data.bonkId].tabbed = data.out;
-
-      // send tabbed (afk) state to everyone
-      this.io.to('main').emit(OUT.SET_TABBED, socket.data.bonkId, data.out);
-    });
-
-    // save replay to main menu
-    socket.on(IN.SAVE_REPLAY, () => {
-      this.io.to('main').emit(OUT.SAVE_REPLAY, socket.data.bonkId);
-    });
-
-    // (unhandled) 38: request xp increase
-    // (unhandled) 39: vote map
-    // (unhandled) 51: curate map
-
-    /* #endregion NON-HOST ACTIONS */
-
-    /* #region HOST ACTIONS */
-
-    // lock teams
-    socket.on(IN.LOCK_TEAMS, (data) => {
-      if (this.processRatelimit(socket, 'changingTeams')) return;
-      if (!this.assertPlayerIsHost(socket.data.bonkId)) return;
+      // setting paths are prefixed with the room id when there's more than one room
+      const prefix = this.rooms.length > 1 ? `${room.id}: ` : '';
+      let roomNewConfig: Config = { ...newConfig, ...roomConfig };
 
-      this.gameSettings.tl = data.teamLock;
+      for (const setting of diffConfig(room.config, roomNewConfig)) {
+        if (['id', 'rooms', ...serverSettings].includes(setting.split('.')[0])) continue;
 
-      this.io.to('main').emit(OUT.LOCK_TEAMS, data.teamLock);
-    });
-
-    // kick/ban player
-    socket.on(IN.KICK_BAN_PLAYER, (data) => {
-      if (!this.assertPlayerIsHost(socket.data.bonkId)) return;
-
-      if (data.kickonly) {
-        this.kickPlayer(data.banshortid);
-      } else {
-        this.banPlayer(data.banshortid);
+        if (restartOnlySettings.includes(setting)) {
+          roomNewConfig = setSetting(roomNewConfig, setting, getSetting(room.config, setting));
+          report.skipped.push(prefix + setting);
+        } else {
+          report.applied.push(prefix + setting);
+        }
       }
-    });
-
-    // change mode
-    socket.on(IN.CHANGE_MODE, (data) => {
-      if (this.processRatelimit(socket, 'changingMode')) return;
-      if (!this.assertPlayerIsHost(socket.data.bonkId)) return;
-
-      this.gameSettings.ga = data.ga;
-      this.gameSettings.mo = data.mo;
-
-      this.io.to('main').emit(OUT.CHANGE_MODE, data.ga, data.mo);
-    });
-
-    // change rounds to win
-    socket.on(IN.CHANGE_ROUNDS, (data) => {
-      if (!this.assertPlayerIsHost(socket.data.bonkId)) return;
-
-      this.gameSettings.wl = data.w;
 
-      this.io.to('main').emit(OUT.CHANGE_ROUNDS, data.w);
-    });
-
-    // change current map
-    socket.on(IN.CHANGE_MAP, (data) => {
-      if (this.processRatelimit(socket, 'changingMap')) return;
-      if (!this.assertPlayerIsHost(socket.data.bonkId)) return;
-
-      this.gameSettings.map = data.m;
-
-      this.io.to('main').emit(OUT.CHANGE_MAP, data.m);
-    });
-
-    // change someone's team
-    socket.on(IN.CHANGE_OTHER_TEAM, (data) => {
-      if (this.processRatelimit(socket, 'changingTeams')) return;
-      if (!this.assertPlayerIsHost(socket.data.bonkId)) return;
-
-      // change team in the player list
-      this.playerInfo[data.targetID].team = data.targetTeam;
-
-      // send team change packet to everyone
-      this.io.to('main').emit(OUT.CHANGE_TEAM, data.targetID, data.targetTeam);
-    });
-
-    // change someone's balance (nerf/buff)
-    socket.on(IN.CHANGE_BALANCE, (data) => {
-      if (!this.assertPlayerIsHost(socket.data.bonkId)) return;
-
-      // change balance in the game settings
-      this.gameSettings.bal[data.sid] = data.bal;
-
-      // send balance change packet to everyone
-      this.io.to('main').emit(OUT.CHANGE_BALANCE, data.sid, data.bal);
-    });
-
-    // enable/disable teams
-    socket.on(IN.TOGGLE_TEAMS, (data) => {
-      if (!this.assertPlayerIsHost(socket.data.bonkId)) return;
-
-      // change team enable/disable in the game settings
-      this.gameSettings.tea = data.t;
-
-      // send team enable/disable packet to everyone
-      this.io.to('main').emit(OUT.TOGGLE_TEAMS, data.t);
-    });
-
-    // transfer host
-    socket.on(IN.TRANSFER_HOST, (data) => {
-      if (this.processRatelimit(socket, 'transferringHost')) return;
-      if (!this.assertPlayerIsHost(socket.data.bonkId)) return;
-
-      const oldHostId = this.hostId;
-
-      // change host id
-      this.hostId = data.id;
-
-      // send host change packet to everyone
-      this.io.to('main').emit(OUT.TRANSFER_HOST, { oldHost: oldHostId, newHost: this.hostId });
-
-      // log host transfer message
-      this.logChatMessage(`* ${this.playerInfo[this.hostId].userName} is now the game host`);
-    });
-
-    // send countdown "starting in" message
-    socket.on(IN.SEND_COUNTDOWN_STARTING, (data) => {
-      if (this.processRatelimit(socket, 'startGameCountdown')) return;
-      if (!this.assertPlayerIsHost(socket.data.bonkId)) return;
-
-      this.io.to('main').emit(OUT.SEND_COUNTDOWN_STARTING, data.num);
-    });
-
-    // send countdown "aborted" message
-    socket.on(IN.SEND_COUNTDOWN_ABORTED, () => {
-      if (this.processRatelimit(socket, 'startGameCountdown')) return;
-      if (!this.assertPlayerIsHost(socket.data.bonkId)) return;
-
-      this.io.to('main').emit(OUT.SEND_COUNTDOWN_ABORTED);
-    });
-
-    // (unhandled) 50: NO_HOST_SWAP
-    // (unhandled) 52: CHANGE_ROOM_NAME
-    // (unhandled) 53: CHANGE_ROOM_PASSWORD
-
-    /* #endregion HOST ACTIONS */
+      room.config = roomNewConfig;
+    }
 
-    /* #region IN-GAME ACTIONS */
+    this.config = newConfig;
 
-    // send inputs
-    socket.on(IN.SEND_INPUTS, (data) => {
-      socket.broadcast.emit(OUT.SEND_INPUTS, socket.data.bonkId, data);
-    });
+    return report;
+  }
 
-    // host start game
-    socket.on(IN.START_GAME, (data) => {
-      if (this.processRatelimit(socket, 'startingEndingGame')) return;
-      if (!this.assertPlayerIsHost(socket.data.bonkId)) return;
+  /**
+   * Reload the config every time its file is saved.
+   */
+  watchConfigFile() {
+    const configPath = findConfigFile(getConfigOptions().configPath);
 
-      this.gameSettings = data.gs;
-      this.gameStartTime = Date.now();
+    if (!configPath) {
+      console.log('Watching the config file is enabled but there is no config file. Changes will not be applied.');
+      return;
+    }
 
-      this.io.to('main').emit(OUT.START_GAME, this.gameStartTime, data.is, data.gs);
-    });
+    fs.watchFile(configPath, { interval: 1000 }, (current, previous) => {
+      // the file can be missing for a moment while some editors save it
+      if (current.mtimeMs == 0 || current.mtimeMs == previous.mtimeMs) return;
 
-    // host end game
-    socket.on(IN.RETURN_TO_LOBBY, () => {
-      if (this.processRatelimit(socket, 'startingEndingGame')) return;
-      if (!this.assertPlayerIsHost(socket.data.bonkId)) return;
+      ManifoldTerminal.consoleLog(`The config file "${configPath}" changed.`);
 
-      this.io.to('main').emit(OUT.RETURN_TO_LOBBY);
+      try {
+        ManifoldTerminal.consoleLog(actions.reloadConfig(this));
+      } catch (error) {
+        if (!(error instanceof actions.AdminActionError)) throw error;
+        ManifoldTerminal.consoleLog(error.message);
+      }
     });
+  }
 
-    // (unhandled) 41: get map votes
+  /**
+   * Stop the server if every room has been closed and emptied through a scheduled close.
+   */
+  closeIfAllRoomsClosed() {
+    // a shutdown that's taking place closes the server on its own
+    if (this.shuttingDown) return;
+    if (!this.rooms.every((room) => room.closed && room.playerAmount <= 0)) return;
 
-    /* #endregion IN-GAME ACTIONS */
+    this.shutdown(false, 'every room has been closed');
+  }
 
-    socket.on('disconnect', () => {
-      if (socket.data.bonkId === undefined) return;
+  /**
+   * Shut the server down after receiving a signal, which counts as a restart if the config says so.
+   */
+  handleSignal(signal: NodeJS.Signals) {
+    this.shutdown(this.config.shutdown.restartSignals.includes(signal), signal);
+  }
 
-      const leavingPlayerId = socket.data.bonkId;
-      const leavingPlayerName = this.playerInfo[leavingPlayerId].userName;
+  /**
+   * Shut the server down gracefully: return every room to the lobby, close them to new players and let everyone know,
+   * then give players some time to leave on their own before closing the server. If `restart` is `true`, players are
+   * told that the server is restarting. Shutting down again while a shutdown is taking place closes the server right
+   * away.
+   */
+  async shutdown(restart: boolean, reason: string = 'terminal') {
+    if (this.shuttingDown) {
+      // signals often reach the server twice at once, as terminals and process managers send them to every process
+      // in the group (which includes npm and tsx, and tsx passes them on too)
+      if (Date.now() - this.shutdownStartedAt < 1000) return;
+
+      console.log('Shutdown already in progress. Closing right away...');
+      this.close();
+      return;
+    }
 
-      // this is the amount of game ticks (bonk runs at 30tps) at which the player left
-      const tickCount = Math.round((Date.now() - this.gameStartTime) / (1000 / 30));
+    this.shuttingDown = true;
+    this.shutdownStartedAt = Date.now();
 
-      if (this.config.autoAssignHost && this.assertPlayerIsHost(socket.data.bonkId, false)) {
-        const newHostId = this.playerSockets.findIndex((i) => i && this.hostId != i.data.bonkId);
+    const drainTimeout = this.config.shutdown.drainTimeout;
+    console.log(
+      `${restart ? 'Restarting' : 'Shutting down'} (${reason}). Waiting up to ${drainTimeout} seconds for players ` +
+        'to leave...',
+    );
 
-        // log disconnect message
-        if (newHostId == -1) {
-          this.logChatMessage(`* ${leavingPlayerName} left the game`);
-        } else {
-          this.logChatMessage(
-            `* ${leavingPlayerName} left the game and ${this.playerInfo[newHostId].userName} is now the game host`,
-          );
-        }
+    this.webhooks.send('server_closing', null, null, { restart, reason });
 
-        this.hostId = newHostId;
-        this.io.to('main').emit(OUT.HOST_LEFT, socket.data.bonkId, newHostId, tickCount);
-      } else {
-        if (this.assertPlayerIsHost(socket.data.bonkId, false)) this.hostId = -1;
+    for (const room of this.rooms) {
+      room.beginShutdown(
+        restart
+          ? `* The server is restarting. ${this.config.shutdown.restartMessage}`
+          : '* The server is shutting down. Thanks for playing!',
+      );
+    }
 
-        // log disconnect message
-        this.logChatMessage(`* ${leavingPlayerName} left the game`);
+    const drainEnd = Date.now() + drainTimeout * 1000;
 
-        this.io.to('main').emit(OUT.PLAYER_LEFT, socket.data.bonkId, tickCount);
-      }
+    // webhooks still being sent (such as the one about the server closing) are given the same time to go through
+    while (
+      Date.now() < drainEnd &&
+      (this.rooms.some((room) => room.playerAmount > 0) || this.webhooks.pendingDeliveries > 0)
+    ) {
+      await new Promise((resolve) => setTimeout(resolve, 250));
+    }
 
-      delete this.playerInfo[socket.data.bonkId];
-      delete this.playerSockets[socket.data.bonkId];
+    this.close();
+  }
 
-      this.playerAmount--;
+  /**
+   * Disconnect everyone, save everything that's kept in memory and exit.
+   */
+  close() {
+    this.shuttingDown = true;
+    this.dashboard?.stop();
+
+    for (const room of this.rooms) {
+      // the room state is saved first, while everyone is still part of it
+      room.state.stop();
+      room.namespace.disconnectSockets(true);
+
+      room.liftExpiredBans();
+      room.saveChatLog();
+      room.recorder.stop();
+      room.flushPlaytime();
+      room.profiles.save();
+      room.banList.save();
+    }
 
-      if (this.playerAmount <= 0 && this.closed) {
-        console.log('Everyone has left the room. Closing...');
-        this.saveChatLog();
-        process.exit(0);
-      }
-    });
+    this.io.close();
+    process.exit(0);
   }
 }
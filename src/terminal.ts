@@ -1,98 +1,531 @@
 import { createInterface, Interface } from 'node:readline';
 import ManifoldServer from './server';
-import fs from 'fs';
+import ManifoldRoom from './room';
 import columnify from 'columnify';
+import moment from 'moment';
 import chalk from 'chalk';
 import wrap from 'word-wrap';
-import { TerminalCommand } from './types';
+import { JournalEvent, JournalEventType, TerminalCommand } from './types';
+import { JournalQuery, journalEventTypes } from './journal';
+import { getLevelFromXp, parseDuration } from './utils';
+import * as actions from './adminActions';
+
+/**
+ * Parse a time given to the "log" command, which can be a duration (meaning that long ago) or a date.
+ */
+function parseLogTime(time: string): number {
+  const duration = parseDuration(time);
+  if (duration !== undefined) return Date.now() - duration;
+
+  const date = moment(time, ['YYYY-MM-DD HH:mm:ss', 'YYYY-MM-DD HH:mm', 'YYYY-MM-DD'], true);
+  if (!date.isValid()) {
+    throw new actions.AdminActionError(
+      `${time} is not a valid time. Use durations such as 30m or 2h, or dates such as 2024-05-01 or "2024-05-01 ` +
+        '18:30".',
+    );
+  }
+
+  return date.valueOf();
+}
+
+/**
+ * Parse the filters given to the "log" command, such as "player:someone" or "type:chat,join".
+ */
+function parseLogFilters(filters: string[]): JournalQuery {
+  const query: JournalQuery = { limit: 20 };
+
+  for (const filter of filters) {
+    const separatorIndex = filter.indexOf(':');
+    const key = filter.slice(0, separatorIndex);
+    const value = filter.slice(separatorIndex + 1);
+
+    switch (separatorIndex == -1 ? filter : key) {
+      case 'player':
+        query.player = value;
+        break;
+      case 'type':
+        query.types = value.split(',') as JournalEventType[];
+
+        for (const type of query.types) {
+          if (!journalEventTypes.includes(type)) {
+            throw new actions.AdminActionError(
+              `${type} is not a valid event type. Valid types are: ${journalEventTypes.join(', ')}.`,
+            );
+          }
+        }
+        break;
+      case 'since':
+        query.since = parseLogTime(value);
+        break;
+      case 'until':
+        query.until = parseLogTime(value);
+        break;
+      case 'limit':
+        if (!/^[0-9]+$/.test(value)) throw new actions.AdminActionError(`${value} is not a valid limit.`);
+        query.limit = parseInt(value);
+        break;
+      default:
+        throw new actions.AdminActionError(
+          `${filter} is not a valid filter. Valid filters are: player, type, since, until and limit.`,
+        );
+    }
+  }
+
+  return query;
+}
+
+/**
+ * Format a journal event as a single line. Long details (such as map data) are cut short.
+ */
+function formatJournalEvent(event: JournalEvent, timeStampFormat: string): string {
+  const { time, type, player, ...details } = event;
+
+  const detailString = JSON.stringify(details, (_key, value) =>
+    typeof value === 'string' && value.length > 60 ? value.slice(0, 60) + '...' : value,
+  );
+
+  return `[${moment(time).format(timeStampFormat)}] ${type}${player !== null ? ` ${player}` : ''} ${detailString}`;
+}
 
 const availableCommands: Record<string, TerminalCommand> = {
   host: {
     usage:
       'host [username or id, leave blank to remove host permissions from the current host without assigning a new one]',
     description: 'Give host privileges to someone in the room.',
-    callback: function (cmd, server) {
-      const id = ManifoldTerminal.getPlayerId(cmd[1], server);
+    callback: function (cmd, room) {
+      ManifoldTerminal.consoleLog(actions.transferHost(room, cmd[1]));
+    },
+  },
+  kick: {
+    usage: 'kick [username or id]',
+    description: 'Kick a player currently in the room.',
+    callback(cmd, room) {
+      ManifoldTerminal.consoleLog(actions.kickPlayer(room, cmd[1], 'terminal'));
+    },
+  },
+  ban: {
+    usage: 'ban [username or id] [reason (optional)]',
+    description: 'Permanently ban a player currently in the room, both by username and address.',
+    callback(cmd, room) {
+      ManifoldTerminal.consoleLog(
+        actions.banPlayer(room, cmd[1], { reason: cmd.slice(2).join(' '), issuedBy: 'terminal' }),
+      );
+    },
+  },
+  tempban: {
+    usage: 'tempban [username or id] [duration] [reason (optional)]',
+    description:
+      'Temporarily ban a player currently in the room, both by username and address. The duration can be given in ' +
+      'seconds (30s), minutes (10m), hours (2h), days (7d) or weeks (1w). Numbers without a unit are treated as ' +
+      'minutes.',
+    callback(cmd, room) {
+      ManifoldTerminal.consoleLog(
+        actions.banPlayer(room, cmd[1], {
+          duration: cmd[2] ?? '',
+          reason: cmd.slice(3).join(' '),
+          issuedBy: 'terminal',
+        }),
+      );
+    },
+  },
+  banname: {
+    usage: 'banname [username] [reason (optional)]',
+    description:
+      "Permanently ban a username, regardless of whether someone using it is in the room. The player's address is " +
+      'not banned.',
+    callback(cmd, room) {
+      ManifoldTerminal.consoleLog(
+        actions.addBan(room, cmd[1], undefined, { reason: cmd.slice(2).join(' '), issuedBy: 'terminal' }),
+      );
+    },
+  },
+  banip: {
+    usage: 'banip [address or CIDR range] [reason (optional)]',
+    description:
+      'Permanently ban an IPv4/IPv6 address, or a range of addresses in CIDR notation (such as 192.168.0.0/16). ' +
+      'Everyone in the room connecting from a banned address is disconnected.',
+    callback(cmd, room) {
+      ManifoldTerminal.consoleLog(
+        actions.addBan(room, undefined, cmd[1], { reason: cmd.slice(2).join(' '), issuedBy: 'terminal' }),
+      );
+    },
+    aliases: ['banaddress'],
+  },
+  bans: {
+    usage: 'bans',
+    description: 'Show a list of all the bans in the room.',
+    callback(cmd, room) {
+      const banList = actions.getBans(room);
+
+      if (banList.length == 0) {
+        ManifoldTerminal.consoleLog('There are no bans in the room!');
+        return;
+      }
 
-      if (cmd[1] && id == -1) {
-        ManifoldTerminal.consoleLog(`${cmd[1]} is not a valid player name or id.`);
+      ManifoldTerminal.consoleLog(
+        columnify(
+          banList.map((ban) => ({
+            id: ban.id,
+            username: ban.username ?? '-',
+            address: ban.address ?? '-',
+            reason: ban.reason || '-',
+            'issued by': ban.issuedBy,
+            issued: moment(ban.issuedAt).fromNow(),
+            expires: ban.expiresAt === null ? 'never' : moment(ban.expiresAt).fromNow(),
+          })),
+          {
+            columnSplitter: '   ',
+            maxWidth: 20,
+          },
+        ),
+      );
+    },
+    aliases: ['banlist'],
+  },
+  unban: {
+    usage: 'unban [ban id, username or address]',
+    description:
+      'Remove a ban. Bans can be removed through their id (shown by the "bans" command), or through the username ' +
+      'or address they target.',
+    callback(cmd, room) {
+      ManifoldTerminal.consoleLog(actions.unbanPlayer(room, cmd[1]));
+    },
+  },
+  mute: {
+    usage: 'mute [username or id] [duration (optional)]',
+    description:
+      'Mute a player, preventing them from sending chat messages and map requests. The mute persists if the player ' +
+      'reconnects. The duration can be given in seconds (30s), minutes (10m), hours (2h), days (7d) or weeks (1w).',
+    callback(cmd, room) {
+      ManifoldTerminal.consoleLog(actions.mutePlayer(room, cmd[1], { duration: cmd[2], issuedBy: 'terminal' }));
+    },
+  },
+  shadowmute: {
+    usage: 'shadowmute [username or id] [duration (optional)]',
+    description:
+      "Mute a player without telling them. The player's chat messages and map requests are still shown to them, " +
+      'but to no one else.',
+    callback(cmd, room) {
+      ManifoldTerminal.consoleLog(
+        actions.mutePlayer(room, cmd[1], { duration: cmd[2], shadow: true, issuedBy: 'terminal' }),
+      );
+    },
+  },
+  unmute: {
+    usage: 'unmute [username or id]',
+    description: 'Unmute a player.',
+    callback(cmd, room) {
+      ManifoldTerminal.consoleLog(actions.unmutePlayer(room, cmd[1]));
+    },
+  },
+  mutes: {
+    usage: 'mutes',
+    description: 'Show a list of all the muted players in the room.',
+    callback(cmd, room) {
+      const muteList = actions.getMutes(room);
+
+      if (muteList.length == 0) {
+        ManifoldTerminal.consoleLog("There isn't anyone muted in the room!");
         return;
       }
 
-      if (id == -1 && server.hostId == -1) {
-        ManifoldTerminal.consoleLog('There is no game host in the server to remove privileges from!');
+      ManifoldTerminal.consoleLog(
+        columnify(
+          muteList.map((mute) => ({
+            username: mute.username,
+            address: mute.address,
+            type: mute.shadow ? 'shadow' : 'normal',
+            'issued by': mute.issuedBy,
+            expires: mute.expiresAt === null ? 'never' : moment(mute.expiresAt).fromNow(),
+          })),
+          {
+            columnSplitter: '   ',
+            maxWidth: 20,
+          },
+        ),
+      );
+    },
+  },
+  role: {
+    usage: 'role [username or id] [moderator, admin or none]',
+    description:
+      'Give a role to a player, or take it away by using "none". Moderators can kick, mute and move players to ' +
+      'other teams, while admins can also ban, unban and transfer host privileges. If the player is in the room, ' +
+      'the address they are connecting from is recorded.',
+    callback(cmd, room) {
+      ManifoldTerminal.consoleLog(actions.setRole(room, cmd[1], cmd[2]));
+    },
+    aliases: ['setrole'],
+  },
+  roles: {
+    usage: 'roles',
+    description: 'Show a list of all the players with a role in the room.',
+    callback(cmd, room) {
+      const roleList = actions.getRoles(room);
+
+      if (roleList.length == 0) {
+        ManifoldTerminal.consoleLog("There isn't anyone with a role in the room!");
+        return;
       }
 
-      const oldHostId = server.hostId;
-      server.transferHost(id);
+      ManifoldTerminal.consoleLog(
+        columnify(
+          roleList.map((entry) => ({
+            username: entry.username,
+            role: entry.role,
+            addresses: entry.addresses.join(', '),
+          })),
+          {
+            columnSplitter: '   ',
+            maxWidth: 40,
+          },
+        ),
+      );
+    },
+  },
+  log: {
+    usage: 'log [player:username] [type:type1,type2...] [since:time] [until:time] [limit:amount]',
+    description:
+      'Show past events of the room, read from its journal. Events can be filtered by player, type and time range. ' +
+      'Times can be durations (such as 30m or 2h, meaning that long ago) or dates (such as 2024-05-01 or ' +
+      '"2024-05-01 18:30"). Only the last 20 matching events are shown, unless a different limit is given.',
+    callback(cmd, room) {
+      const events = room.journal.query(parseLogFilters(cmd.slice(1)));
+
+      if (events.length == 0) {
+        ManifoldTerminal.consoleLog('There are no events matching the filters.');
+        return;
+      }
 
-      if (id == -1) {
-        ManifoldTerminal.consoleLog(`Removed host privileges from ${server.playerInfo[oldHostId].userName}.`);
-      } else {
-        ManifoldTerminal.consoleLog(`${server.playerInfo[id].userName} (id ${id}) is now the game host.`);
+      ManifoldTerminal.consoleLog(
+        events.map((event) => formatJournalEvent(event, room.config.timeStampFormat)).join('\n'),
+      );
+    },
+    aliases: ['journal'],
+  },
+  whois: {
+    usage: 'whois [username or id]',
+    description:
+      'Show the profile of a player, which includes when they were first and last seen in the room, their ' +
+      "playtime, and other stats. Works with players that aren't in the room too.",
+    callback(cmd, room) {
+      for (const profile of actions.getProfiles(room, cmd[1])) {
+        ManifoldTerminal.consoleLog(
+          columnify(
+            {
+              username: `${profile.username}${profile.guest ? ' (guest)' : ''}`,
+              'first seen': moment(profile.firstSeen).format(room.config.timeStampFormat),
+              'last seen': room.getPlayerId(profile.username) != -1 ? 'now' : moment(profile.lastSeen).fromNow(),
+              playtime: moment.duration(profile.playtime).humanize(),
+              joins: profile.joins,
+              'games played': profile.gamesPlayed,
+              'messages sent': profile.messagesSent,
+              'times kicked': profile.timesKicked,
+              'times banned': profile.timesBanned,
+              addresses: profile.addresses.join(', '),
+              ...(room.config.xp.enabled && !profile.guest
+                ? { xp: `${profile.xp} (level ${getLevelFromXp(profile.xp)})` }
+                : {}),
+            },
+            {
+              showHeaders: false,
+              columnSplitter: '   ',
+              maxWidth: 40,
+            },
+          ),
+        );
       }
     },
   },
-  ban: {
-    usage: 'ban [username]',
-    description: 'Ban a player currently in the room.',
-    callback(cmd, server) {
-      const id = ManifoldTerminal.getPlayerId(cmd[1], server);
+  top: {
+    usage: 'top [playtime, games, messages, joins or xp (optional)] [amount (optional)]',
+    description:
+      'Show the players with the highest playtime, amount of games played, messages sent, joins or XP. Shows the ' +
+      'top 10 players by playtime by default.',
+    callback(cmd, room) {
+      const leaderboard = actions.getLeaderboard(room, cmd[1], cmd[2] ? Number(cmd[2]) : undefined);
 
-      if (id == -1) {
-        ManifoldTerminal.consoleLog(`${cmd[1]} is not a valid player name or id.`);
+      if (leaderboard.length == 0) {
+        ManifoldTerminal.consoleLog("There aren't any player profiles yet!");
         return;
       }
 
-      server.banPlayer(id);
+      ManifoldTerminal.consoleLog(
+        columnify(
+          leaderboard.map((profile, i) => ({
+            '#': i + 1,
+            username: profile.username,
+            playtime: moment.duration(profile.playtime).humanize(),
+            games: profile.gamesPlayed,
+            messages: profile.messagesSent,
+            joins: profile.joins,
+            ...(room.config.xp.enabled ? { xp: profile.xp } : {}),
+          })),
+          {
+            columnSplitter: '   ',
+            maxWidth: 20,
+          },
+        ),
+      );
+    },
+  },
+  mapvotes: {
+    usage: 'mapvotes [amount (optional)]',
+    description:
+      'Show the most liked and least liked maps played in the room, according to the votes of the players. Shows 5 ' +
+      'maps of each by default.',
+    callback(cmd, room) {
+      const amount = cmd[1] ? Number(cmd[1]) : 5;
+      if (!(amount > 0)) throw new actions.AdminActionError('The amount of maps must be a positive number.');
+
+      const mapList = actions.getMapVotes(room).map((map) => ({
+        map: map.name ? `${map.name}${map.author ? ` by ${map.author}` : ''}` : `Unknown map (${map.id})`,
+        likes: map.likes,
+        dislikes: map.dislikes,
+        score: map.score,
+      }));
+
+      if (mapList.length == 0) {
+        ManifoldTerminal.consoleLog('No maps have been voted in the room yet!');
+        return;
+      }
+
+      const columnifyOptions = {
+        columnSplitter: '   ',
+        maxWidth: 30,
+      };
 
-      ManifoldTerminal.consoleLog('Banned.');
+      ManifoldTerminal.consoleLog('Most liked maps:');
+      ManifoldTerminal.consoleLog(columnify(mapList.slice(0, amount), columnifyOptions));
+      ManifoldTerminal.consoleLog('');
+      ManifoldTerminal.consoleLog('Least liked maps:');
+      ManifoldTerminal.consoleLog(columnify(mapList.slice(-amount).reverse(), columnifyOptions));
     },
   },
-  unban: {
-    usage: 'unban [username]',
-    description: 'Unban a player.',
-    callback(cmd, server) {
-      const index = server.banList.usernames.indexOf(cmd[1]);
+  recordings: {
+    usage: 'recordings',
+    description: 'Show a list of all the game recordings saved in the room.',
+    callback(cmd, room) {
+      const recordingList = actions.getRecordings(room);
 
-      if (index == -1) {
-        ManifoldTerminal.consoleLog(`${cmd[1]} is not in the ban list.`);
+      if (recordingList.length == 0) {
+        ManifoldTerminal.consoleLog(
+          room.config.recordings.enabled
+            ? 'There are no recordings in the room!'
+            : 'There are no recordings in the room! Game recording can be enabled in the config.',
+        );
         return;
       }
 
-      server.banList.usernames.splice(index, 1);
-      server.banList.addresses.splice(index, 1);
+      ManifoldTerminal.consoleLog(
+        columnify(
+          recordingList.map((recording) => ({
+            '#': recording.number,
+            name: recording.name,
+            started: moment(recording.startedAt).fromNow(),
+            length: moment.duration(recording.length).humanize(),
+            players: recording.players.join(', '),
+            size: `${Math.ceil(recording.size / 1024)} KB`,
+          })),
+          {
+            columnSplitter: '   ',
+            maxWidth: 30,
+          },
+        ),
+      );
+    },
+  },
+  deleterecording: {
+    usage: 'deleterecording [recording name or number]',
+    description: 'Delete a game recording. Recordings can be referred to by their number in the "recordings" list.',
+    callback(cmd, room) {
+      ManifoldTerminal.consoleLog(actions.deleteRecording(room, cmd[1]));
+    },
+  },
+  exportrecording: {
+    usage: 'exportrecording [recording name or number] [destination file (optional)]',
+    description:
+      'Export a game recording as an indented JSON file. If no destination is given, the recording is exported to ' +
+      'the "exports" folder.',
+    callback(cmd, room) {
+      ManifoldTerminal.consoleLog(actions.exportRecording(room, cmd[1], cmd[2]));
+    },
+  },
+  playlist: {
+    usage: 'playlist',
+    description: 'Show the list of maps in the playlist of the room. The map played last is marked with an arrow.',
+    callback(cmd, room) {
+      const playlist = actions.getPlaylist(room);
+
+      if (playlist.length == 0) {
+        ManifoldTerminal.consoleLog('The playlist is empty! Maps can be added to it with the "playlistadd" command.');
+        return;
+      }
+
+      ManifoldTerminal.consoleLog(
+        columnify(
+          playlist.map((entry) => ({
+            '#': entry.number,
+            name: entry.name,
+            current: entry.current ? '<-' : '',
+          })),
+          {
+            columnSplitter: '   ',
+            maxWidth: 40,
+          },
+        ),
+      );
 
-      fs.writeFileSync('./banlist.json', JSON.stringify(server.banList), {
-        encoding: 'utf8',
-      });
+      if (!room.config.playlist.autoAdvance) {
+        ManifoldTerminal.consoleLog(
+          'The playlist does not advance on its own. This can be changed through "playlist.autoAdvance" in the config.',
+        );
+      }
+    },
+  },
+  playlistadd: {
+    usage: 'playlistadd [map name]',
+    description: 'Add the map that is currently selected in the room to the end of the playlist.',
+    callback(cmd, room) {
+      ManifoldTerminal.consoleLog(actions.addCurrentMapToPlaylist(room, cmd.slice(1).join(' ')));
+    },
+  },
+  playlistremove: {
+    usage: 'playlistremove [playlist number]',
+    description: 'Remove a map from the playlist.',
+    callback(cmd, room) {
+      ManifoldTerminal.consoleLog(actions.removeFromPlaylist(room, cmd[1]));
+    },
+  },
+  playlistmove: {
+    usage: 'playlistmove [playlist number] [new playlist number]',
+    description: 'Move a map of the playlist to another position.',
+    callback(cmd, room) {
+      ManifoldTerminal.consoleLog(actions.movePlaylistEntry(room, cmd[1], cmd[2]));
+    },
+  },
+  playlistjump: {
+    usage: 'playlistjump [playlist number]',
+    description: 'Change the map to one of the playlist right away. The playlist continues from that map.',
+    callback(cmd, room) {
+      ManifoldTerminal.consoleLog(actions.jumpToPlaylistEntry(room, cmd[1]));
     },
   },
   players: {
     usage: 'players',
     description: 'Show a list of all the players in the room.',
-    callback(cmd, server) {
-      if (server.playerAmount == 0) {
-        ManifoldTerminal.consoleLog("There isn't anyone connected to the server!");
+    callback(cmd, room) {
+      if (room.playerAmount == 0) {
+        ManifoldTerminal.consoleLog("There isn't anyone connected to the room!");
         return;
       }
 
-      const teamNames = ['Spectating', 'Free For All', 'Red', 'Blue', 'Green', 'Yellow'];
-
-      const playerList = [];
-
-      for (let i = 0; i < server.playerInfo.length; i++) {
-        const player = server.playerInfo[i];
-
-        if (!player) continue;
-
-        playerList.push({
-          id: i,
-          username: player.userName,
-          level: player.guest ? 'Guest' : player.level,
-          team: teamNames[player.team],
-        });
-      }
+      const playerList = actions.getPlayers(room).map((player) => ({
+        id: player.id,
+        username: player.username,
+        level: player.guest ? 'Guest' : player.level,
+        team: player.teamName,
+      }));
 
       ManifoldTerminal.consoleLog(
         columnify(playerList, {
@@ -105,92 +538,146 @@ const availableCommands: Record<string, TerminalCommand> = {
   roomname: {
     usage: 'roomname [new name, leave blank to reset to default]',
     description:
-      "Change the room's name. The new name is not permanent and will change back to roomNameOnStartup when the server is restarted. Remember to use quotes if the room name you want to use has spaces.",
-    callback(cmd, server) {
-      server.roomName = cmd[1] ? cmd[1] : server.config.roomNameOnStartup;
-      ManifoldTerminal.consoleLog(`The room's name is now "${server.roomName}".`);
+      "Change the room's name. The new name is kept across restarts as part of the room state (if " +
+      'roomState.enabled is on in the config), and otherwise changes back to roomNameOnStartup when the server is ' +
+      'restarted. Remember to use quotes if the room name you want to use has spaces.',
+    callback(cmd, room) {
+      ManifoldTerminal.consoleLog(actions.setRoomName(room, cmd[1]));
     },
   },
   roompass: {
     usage: 'roompass [new password, leave blank to clear the password]',
     description:
-      "Change the room's password. The new password is not permanent and will change back to roomPasswordOnStartup when the server is restarted. Remember to use quotes if the password you want to use has spaces.",
-    callback(cmd, server) {
-      if (cmd[1]) {
-        server.password = cmd[1];
-        ManifoldTerminal.consoleLog(`The room's password is now "${server.password}".`);
-      } else {
-        server.password = null;
-        ManifoldTerminal.consoleLog(`The room's password has been cleared.`);
-      }
+      "Change the room's password. The new password is kept across restarts as part of the room state (if " +
+      'roomState.enabled is on in the config), and otherwise changes back to roomPasswordOnStartup when the server ' +
+      'is restarted. Remember to use quotes if the password you want to use has spaces.',
+    callback(cmd, room) {
+      ManifoldTerminal.consoleLog(actions.setRoomPassword(room, cmd[1]));
     },
     aliases: ['roompassword'],
   },
+  resetroom: {
+    usage: 'resetroom',
+    description:
+      "Reset the room's name, password and game settings to the ones set in the config (roomNameOnStartup, " +
+      'roomPasswordOnStartup and defaultGameSettings), and delete the room state saved to disk, including the ' +
+      "teams and host of players who haven't rejoined since the last restart. Can only be used while the room is " +
+      'in the lobby.',
+    callback(cmd, room) {
+      ManifoldTerminal.consoleLog(actions.resetRoomState(room));
+    },
+    aliases: ['resetroomstate'],
+  },
   savechatlog: {
     usage: 'savechatlog',
     description: 'Save all chat messages sent since the last call to savechatlog into a txt file.',
-    callback(cmd, server) {
-      server.saveChatLog();
+    callback(cmd, room) {
+      room.saveChatLog();
     },
   },
   scheduledclose: {
     usage: 'scheduledclose [time until force-stop in minutes (optional)]',
     description:
-      'Remove host permissions from the current game host, disallow new joins, and stop the server once everyone leaves on their own. You can optionally set a timer to force-stop the server after a certain amount of time.',
-    callback(cmd, server) {
-      if (server.playerAmount == 0) {
-        ManifoldTerminal.consoleLog(
-          'Scheduled closing is meant to be used when there are people connected to the server! Did you mean to stop the server by using the command "close"?',
-        );
-        return;
-      }
-
-      if (server.closed) {
-        ManifoldTerminal.consoleLog('A scheduled close is already taking place!');
-        return;
-      }
-
-      const forceStopTime = server.scheduledClose(parseFloat(cmd[1]));
-
-      if (forceStopTime) {
-        ManifoldTerminal.consoleLog(
-          `The server has been closed. Player entry is now prohibited, and the server will shut down ${forceStopTime}, or as soon as everyone leaves the room.`,
-        );
-      } else {
-        ManifoldTerminal.consoleLog(
-          'The server has been closed. Player entry is now prohibited, and as soon as everyone leaves the room, the server will shut down.',
-        );
-      }
+      'Remove host permissions from the current game host, disallow new joins, and stop the room once everyone ' +
+      'leaves on their own. You can optionally set a timer to force-stop the room after a certain amount of time.',
+    callback(cmd, room) {
+      ManifoldTerminal.consoleLog(actions.scheduleClose(room, cmd[1] ? parseFloat(cmd[1]) : undefined));
     },
     aliases: ['schclose'],
   },
   abortscheduledclose: {
     usage: 'abortscheduledclose',
-    description: 'Abort a scheduled close, and re-open the server.',
-    callback(cmd, server) {
-      if (!server.closed) {
-        ManifoldTerminal.consoleLog("The server isn't currently scheduled to be closed.");
-        return;
-      }
-
-      server.abortScheduledClose();
-
-      ManifoldTerminal.consoleLog(
-        'The server has been re-opened! Player entry is no longer prohibited and the server will no longer automatically shut down.',
-      );
+    description: 'Abort a scheduled close, and re-open the room.',
+    callback(cmd, room) {
+      ManifoldTerminal.consoleLog(actions.abortScheduledClose(room));
     },
     aliases: ['abortschclose'],
   },
+  reload: {
+    usage: 'reload',
+    description:
+      'Read the config file again and apply its changes to every room without restarting the server. Settings that ' +
+      'can only change on a restart (the port, HTTPS, maxPlayers, enabling the admin API or the dashboard, and ' +
+      'adding or removing rooms) keep their current values. Changes to config.ts always require a restart.',
+    callback(cmd, room) {
+      ManifoldTerminal.consoleLog(actions.reloadConfig(room.server));
+    },
+    aliases: ['reloadconfig'],
+  },
   close: {
     usage: 'close',
-    description: 'Close the server.',
-    callback: function (cmd, server) {
-      ManifoldTerminal.consoleLog('Closing...');
-      server.saveChatLog();
-      process.exit(0);
+    description:
+      'Close the server, along with every room in it. Players are told about it and given some time to leave (set ' +
+      'by shutdown.drainTimeout in the config) before being disconnected. Using the command again closes the ' +
+      'server right away.',
+    callback: function (cmd, room) {
+      room.server.shutdown(false);
     },
     aliases: ['exit'],
   },
+  restart: {
+    usage: 'restart',
+    description:
+      'Close the server like "close" does, but telling players that the server is restarting (along with ' +
+      'shutdown.restartMessage from the config). The server has to be started again by whatever runs it, such as a ' +
+      'hosting service or a process manager.',
+    callback: function (cmd, room) {
+      room.server.shutdown(true);
+    },
+  },
+  rooms: {
+    usage: 'rooms',
+    description: 'Show a list of all the rooms hosted by the server.',
+    callback(cmd, room) {
+      const roomList = room.server.rooms.map((i) => ({
+        id: i.id,
+        path: i.path,
+        name: i.roomName,
+        players: `${i.playerAmount}/${i.config.maxPlayers}`,
+        selected: i === room ? '*' : '',
+      }));
+
+      ManifoldTerminal.consoleLog(
+        columnify(roomList, {
+          columnSplitter: '   ',
+          maxWidth: 20,
+        }),
+      );
+    },
+  },
+  room: {
+    usage: 'room [room id]',
+    description:
+      'Select the room that the rest of the commands will act upon. Commands act upon the first room in the config ' +
+      'until another room is selected.',
+    callback(cmd, room) {
+      const targetRoom = room.server.getRoom(cmd[1]);
+
+      if (!targetRoom) {
+        ManifoldTerminal.consoleLog(`${cmd[1]} is not a valid room id.`);
+        return;
+      }
+
+      room.server.terminal.room = targetRoom;
+      ManifoldTerminal.consoleLog(`Selected room "${targetRoom.id}" (${targetRoom.roomName}).`);
+    },
+  },
+  plugins: {
+    usage: 'plugins',
+    description: 'Show the list of loaded plugins.',
+    callback(cmd, room) {
+      const plugins = room.server.plugins.loadedPlugins;
+
+      if (plugins.length == 0) {
+        ManifoldTerminal.consoleLog('No plugins have been loaded.');
+        return;
+      }
+
+      for (const plugin of plugins) {
+        ManifoldTerminal.consoleLog(plugin.description ? `${plugin.name} - ${plugin.description}` : plugin.name);
+      }
+    },
+  },
   help: {
     usage: 'help',
     description: 'Show this list of commands.',
@@ -211,17 +698,35 @@ const availableCommands: Record<string, TerminalCommand> = {
   },
 };
 
+/**
+ * Add a command to the terminal, making it available alongside the built-in ones.
+ */
+export function registerTerminalCommand(name: string, command: TerminalCommand) {
+  if (ManifoldTerminal.getAvailableCommand(name)) throw new Error(`A terminal command named "${name}" already exists.`);
+
+  availableCommands[name] = command;
+}
+
 export default class ManifoldTerminal {
   public server: ManifoldServer;
   public readlineInterface: Interface;
 
+  /**
+   * Room that commands act upon, selected through the "room" command.
+   */
+  public room: ManifoldRoom;
+
   constructor(server: ManifoldServer) {
     this.server = server;
+    this.room = server.rooms[0];
 
     this.readlineInterface = createInterface({
       input: process.stdin,
       output: process.stdout,
     });
+
+    // pressing Ctrl+C reaches the terminal instead of the process
+    this.readlineInterface.on('SIGINT', () => this.server.handleSignal('SIGINT'));
   }
 
   async start() {
@@ -229,6 +734,7 @@ export default class ManifoldTerminal {
       [
         `| Manifold Server v${require('../package.json').version}`,
         `| Live at port ${this.server.config.port}`,
+        `| Hosting ${this.server.rooms.length} room(s): ${this.server.rooms.map((room) => room.id).join(', ')}`,
         '|',
         '| Type "help" to show a list of commands.\n',
       ].join('\n'),
@@ -242,7 +748,13 @@ export default class ManifoldTerminal {
       const command = ManifoldTerminal.getAvailableCommand(cmdArr[0]);
 
       if (command !== undefined) {
-        command.callback(cmdArr, this.server);
+        try {
+          command.callback(cmdArr, this.room);
+        } catch (error) {
+          // admin actions throw errors meant to be shown to the user
+          if (!(error instanceof actions.AdminActionError)) throw error;
+          ManifoldTerminal.consoleLog(error.message);
+        }
       } else {
         ManifoldTerminal.consoleLog(`${cmdArr[0]} is not a valid command.`);
       }
@@ -253,7 +765,8 @@ export default class ManifoldTerminal {
 
   private async getUserInput(): Promise<string> {
     return new Promise<string>((resolve) => {
-      this.readlineInterface.question('> ', resolve);
+      const prompt = this.server.rooms.length > 1 ? `[${this.room.id}]> ` : '> ';
+      this.readlineInterface.question(prompt, resolve);
     });
   }
 
@@ -326,16 +839,4 @@ export default class ManifoldTerminal {
 
     return result;
   }
-
-  static getPlayerId(cmd: string, server: ManifoldServer): number {
-    if (!/[^0-9]+/.test(cmd) && server.playerSockets[parseInt(cmd)]) {
-      return parseInt(cmd);
-    } else {
-      for (let i = 0; i < server.playerInfo.length; i++) {
-        if (server.playerInfo[i] && server.playerInfo[i].userName == cmd) return i;
-      }
-    }
-
-    return -1;
-  }
 }
@@ -1,8 +1,125 @@
-import ManifoldServer from './server';
+import ManifoldRoom from './room';
 
-export interface BanList {
+export interface BanEntry {
+  /**
+   * Number that identifies the ban. Can be used to unban.
+   */
+  id: number;
+  /**
+   * Username of the banned player, or `null` if the ban only targets an address.
+   */
+  username: string | null;
+  /**
+   * Banned address, or `null` if the ban only targets a username. Can be either a single IPv4/IPv6 address or a CIDR
+   * range (such as `192.168.0.0/16`).
+   */
+  address: string | null;
+  /**
+   * Reason for the ban. Empty if no reason was given.
+   */
+  reason: string;
+  /**
+   * Who issued the ban (a player's username, "terminal", "admin API" or "dashboard").
+   */
+  issuedBy: string;
+  /**
+   * Time at which the ban was issued, as a UNIX timestamp in milliseconds.
+   */
+  issuedAt: number;
+  /**
+   * Time at which the ban expires, as a UNIX timestamp in milliseconds, or `null` if the ban is permanent.
+   */
+  expiresAt: number | null;
+}
+
+/**
+ * Roles that give players moderation powers without giving them host privileges.
+ *
+ * - Moderators can kick players, mute players and move players to other teams.
+ * - Admins can do everything moderators can, and can also ban and unban players and transfer host privileges.
+ */
+export type PlayerRole = 'moderator' | 'admin';
+
+export interface RoleEntry {
+  /**
+   * Username of the player who has the role.
+   */
+  username: string;
+  role: PlayerRole;
+  /**
+   * Addresses the player connected from when they were given the role.
+   */
+  addresses: string[];
+}
+
+export interface RolesConfig {
+  /**
+   * If `true`, players only get their role if they connect from one of the addresses they used when they were given
+   * the role (or when it was last updated). Manifold cannot verify that players are who they say they are, so
+   * without this, anyone could join with the username of a moderator and get their powers.
+   */
+  bindToAddress: boolean;
+}
+
+export interface MuteEntry {
+  /**
+   * Username of the muted player.
+   */
+  username: string;
+  /**
+   * Address of the muted player.
+   */
+  address: string;
+  /**
+   * If `true`, the player isn't told they're muted, and their messages are still shown to them (but to no one else).
+   */
+  shadow: boolean;
+  /**
+   * Who issued the mute (a player's username, "terminal", "admin API" or "dashboard").
+   */
+  issuedBy: string;
+  /**
+   * Time at which the mute expires, as a UNIX timestamp in milliseconds, or `null` if the mute doesn't expire.
+   */
+  expiresAt: number | null;
+}
+
+export interface PlayerProfile {
+  username: string;
+  /**
+   * Guests and accounts can share usernames, so each of them gets a separate profile.
+   */
+  guest: boolean;
+  /**
+   * Times at which the player first joined the room and was last seen in it, as UNIX timestamps in milliseconds.
+   */
+  firstSeen: number;
+  lastSeen: number;
+  /**
+   * Total time spent in the room, in milliseconds.
+   */
+  playtime: number;
+  joins: number;
+  /**
+   * Amount of games the player has been in (without spectating) when they started.
+   */
+  gamesPlayed: number;
+  messagesSent: number;
+  timesKicked: number;
+  timesBanned: number;
+  /**
+   * Every address the player has joined from.
+   */
   addresses: string[];
-  usernames: string[];
+  /**
+   * XP awarded by the server, used when server-side XP is enabled.
+   */
+  xp: number;
+  /**
+   * XP awarded by the server on the last day (`date`, in the YYYY-MM-DD format, UTC) the player gained XP, used to
+   * enforce the daily XP limit.
+   */
+  dailyXp: { date: string; amount: number };
 }
 
 export interface UsernameRestrictions {
@@ -19,7 +136,8 @@ export interface UsernameRestrictions {
    */
   maxLength: number;
   /**
-   * Players whose username matches this regular expression will not be allowed to join.
+   * Players whose username matches this regular expression will not be allowed to join. In JSON and YAML config
+   * files, the regular expression is written as a string (such as `"[^A-Za-z0-9_ ]"`).
    */
   disallowRegex: RegExp;
 }
@@ -84,6 +202,189 @@ export interface RatelimitRestrictions {
    * Ratelimit for transferring host privileges.
    */
   transferringHost: ServerConfigRatelimit;
+  /**
+   * Ratelimit for voting maps and asking for their votes.
+   */
+  votingMaps: ServerConfigRatelimit;
+  /**
+   * Ratelimit for changing the room's name or password.
+   */
+  changingRoomSettings: ServerConfigRatelimit;
+}
+
+export interface HostRoomSettingsConfig {
+  /**
+   * If `true`, the host can change the room's name.
+   */
+  allowChangingName: boolean;
+  /**
+   * If `true`, the host can change the room's password.
+   */
+  allowChangingPassword: boolean;
+}
+
+/**
+ * What happens to a chat message (or map request) that breaks a chat filter rule:
+ *
+ * - `censor`: the offending part of the message is hidden, and the rest of the message is sent.
+ * - `block`: the message is not sent, and the player receives a penalty (see `penalties`).
+ * - `mute`: the message is not sent, and the player is muted right away.
+ */
+export type ChatFilterAction = 'censor' | 'block' | 'mute';
+
+export interface ChatFilterRule {
+  /**
+   * Word (for `blockedWords`) or regular expression (for `blockedPatterns`) to look for. Matching is case-insensitive.
+   */
+  pattern: string;
+  /**
+   * What to do with messages that contain the word or match the regular expression.
+   */
+  action: ChatFilterAction;
+}
+
+export interface RepeatedMessagesFilter {
+  /**
+   * If `true`, players will not be able to send the same message over and over again.
+   */
+  enabled: boolean;
+  /**
+   * What to do with repeated messages. Repeated messages can't be censored, so `censor` works like `block`.
+   */
+  action: ChatFilterAction;
+  /**
+   * Amount of times a player can send the same message within `timeframe` seconds.
+   */
+  maxRepeats: number;
+  timeframe: number;
+}
+
+export interface CapsFilter {
+  /**
+   * If `true`, messages with too many capital letters will be filtered.
+   */
+  enabled: boolean;
+  /**
+   * What to do with messages that have too many capital letters. Censoring turns the message into lowercase.
+   */
+  action: ChatFilterAction;
+  /**
+   * Messages with less letters than this are never filtered, so that short messages like "GG" or "LOL" are allowed.
+   */
+  minLength: number;
+  /**
+   * Maximum ratio (from 0 to 1) of capital letters to letters that a message can have.
+   */
+  maxRatio: number;
+}
+
+export interface LinksFilter {
+  /**
+   * If `true`, messages containing links will be filtered.
+   */
+  enabled: boolean;
+  /**
+   * What to do with messages containing links. Censoring hides the links.
+   */
+  action: ChatFilterAction;
+  /**
+   * Domains that players can link to (for example, `bonk.io`). Subdomains of these domains are also allowed.
+   */
+  allowedDomains: string[];
+}
+
+export interface ZalgoFilter {
+  /**
+   * If `true`, messages containing zalgo text (letters with lots of diacritics stacked on top of them) or invisible
+   * characters (such as zero-width spaces and text direction overrides) will be filtered.
+   */
+  enabled: boolean;
+  /**
+   * What to do with messages containing zalgo text or invisible characters. Censoring removes the excess diacritics
+   * and the invisible characters.
+   */
+  action: ChatFilterAction;
+  /**
+   * Maximum amount of diacritics that can be stacked on a single letter.
+   */
+  maxCombiningMarks: number;
+}
+
+export interface ChatFilterPenalties {
+  /**
+   * Amount of offenses after which a player gets muted. Set to 0 to never mute players.
+   */
+  muteAfter: number;
+  /**
+   * How long (in seconds) players muted by the chat filter stay muted.
+   */
+  muteDuration: number;
+  /**
+   * Amount of offenses after which a player gets kicked. Set to 0 to never kick players. Must be greater than
+   * `muteAfter`, unless either of them is 0.
+   */
+  kickAfter: number;
+  /**
+   * A player's offenses are forgotten after this many seconds pass without them committing a new one.
+   */
+  offenseTimeframe: number;
+}
+
+export interface ChatFilterRestrictions {
+  /**
+   * If `true`, chat messages will go through the chat filter before being sent to the room.
+   */
+  enabled: boolean;
+  /**
+   * If `true`, players whose username breaks any of the word, pattern, link or zalgo rules will not be allowed to join.
+   */
+  applyToUsernames: boolean;
+  /**
+   * If `true`, the name and author of requested maps will also go through the word, pattern, link and zalgo rules.
+   */
+  applyToMapRequests: boolean;
+  /**
+   * Words that players can't say. Only whole words are matched, so blocking "ass" won't affect "class". Matching is
+   * case-insensitive.
+   */
+  blockedWords: ChatFilterRule[];
+  /**
+   * Regular expressions that messages can't match. Matching is case-insensitive.
+   */
+  blockedPatterns: ChatFilterRule[];
+  /**
+   * Filter for players sending the same message repeatedly.
+   */
+  repeatedMessages: RepeatedMessagesFilter;
+  /**
+   * Filter for messages with too many capital letters.
+   */
+  caps: CapsFilter;
+  /**
+   * Filter for messages containing links.
+   */
+  links: LinksFilter;
+  /**
+   * Filter for zalgo text and invisible characters.
+   */
+  zalgo: ZalgoFilter;
+  /**
+   * Penalties given to players whose messages get blocked. Every blocked message counts as an offense, and penalties
+   * escalate: the first offenses only get the player a warning, then they get muted, and then kicked.
+   */
+  penalties: ChatFilterPenalties;
+}
+
+export interface ChatCommandsConfig {
+  /**
+   * If `true`, chat messages starting with the command prefix will be treated as commands instead of being sent to
+   * the room.
+   */
+  enabled: boolean;
+  /**
+   * Prefix that chat messages must start with to be treated as commands.
+   */
+  prefix: string;
 }
 
 export interface ConfigRestrictions {
@@ -98,9 +399,10 @@ export interface ConfigRestrictions {
   usernames: UsernameRestrictions;
 
   /**
-   * Restrictions for player levels. Keep in mind that levels can be easily spoofed as Manifold cannot check the
-   * validity of a player's level. Therefore, people may spoof their levels to bypass min/max level restrictions,
-   * show a ridiculously high number or show a piece of text in place of the level.
+   * Restrictions for player levels. Keep in mind that unless server-side XP is enabled (see `xp.enabled`),
+   * levels can be easily spoofed as Manifold cannot check the validity of a player's level. Therefore, people may
+   * spoof their levels to bypass min/max level restrictions, show a ridiculously high number or show a piece of text
+   * in place of the level.
    */
   levels: LevelRestrictions;
 
@@ -114,6 +416,454 @@ export interface ConfigRestrictions {
    * until `restore` seconds have passed.
    */
   ratelimits: RatelimitRestrictions;
+
+  /**
+   * Chat filter and anti-spam settings. Besides chat messages, the filter can also be applied to usernames and map
+   * requests.
+   */
+  chatFilter: ChatFilterRestrictions;
+
+  /**
+   * Packet validation settings. Every packet sent by players is checked against the format the server expects (types,
+   * ranges, player ids, team numbers and string lengths) before it's handled, so that malformed packets can't crash
+   * the server or corrupt the room's state.
+   */
+  packetValidation: PacketValidationRestrictions;
+
+  /**
+   * Sanity checks and flood protection for the inputs sent by players during games. Inputs are dropped when no game is
+   * running, when they come from spectators, when they arrive too often, when they're too big, or when their frame
+   * number goes backwards. Players who keep sending invalid inputs are handled according to `action`.
+   */
+  inputs: InputRestrictions;
+}
+
+export interface InputRestrictions {
+  /**
+   * If `true`, inputs are checked before being sent to the rest of the room.
+   */
+  enabled: boolean;
+  /**
+   * Maximum amount of input packets a player can send per second. bonk runs at 30 ticks per second and inputs can only
+   * change once per tick, so anything above 30 (plus some leeway for network jitter) is a flood.
+   */
+  maxPerSecond: number;
+  /**
+   * Maximum size of an input packet, in characters of JSON.
+   */
+  maxSize: number;
+  /**
+   * What happens to players who send `maxViolations` invalid inputs within `timeframe` seconds:
+   *
+   * - `drop`: nothing besides dropping the inputs.
+   * - `warn`: the player is told their inputs are being dropped.
+   * - `kick`: the player is kicked.
+   * - `ban`: the player is banned for `banDuration` seconds.
+   */
+  action: 'drop' | 'warn' | 'kick' | 'ban';
+  maxViolations: number;
+  timeframe: number;
+  /**
+   * Duration (in seconds) of the bans issued when `action` is `ban`. Set to 0 to ban players permanently.
+   */
+  banDuration: number;
+}
+
+export interface PacketValidationRestrictions {
+  /**
+   * If `true`, invalid packets are dropped instead of being handled.
+   */
+  enabled: boolean;
+  /**
+   * Players who send this many invalid packets within `timeframe` seconds are disconnected. Set to 0 to never
+   * disconnect players.
+   */
+  maxInvalidPackets: number;
+  /**
+   * Time (in seconds) over which invalid packets are counted.
+   */
+  timeframe: number;
+  /**
+   * If `true`, every dropped packet is reported in the terminal.
+   */
+  logInvalidPackets: boolean;
+}
+
+export interface JournalConfig {
+  /**
+   * If `true`, room events will be written to the journal.
+   */
+  enabled: boolean;
+  /**
+   * Size (in kilobytes) that the journal file can reach before being rotated, that is, renamed to include the time it
+   * was rotated at, so that a new journal file can be started.
+   */
+  maxFileSize: number;
+  /**
+   * Maximum amount of rotated journal files kept per room. The oldest files are deleted first. Set to 0 to keep every
+   * file.
+   */
+  maxFiles: number;
+  /**
+   * Rotated journal files older than this many days are deleted. Set to 0 to keep files regardless of their age.
+   */
+  maxAge: number;
+}
+
+export type JournalEventType =
+  | 'join'
+  | 'leave'
+  | 'chat'
+  | 'command'
+  | 'map_request'
+  | 'map_change'
+  | 'mode_change'
+  | 'host_transfer'
+  | 'kick'
+  | 'ban'
+  | 'unban'
+  | 'mute'
+  | 'unmute'
+  | 'game_start'
+  | 'return_to_lobby'
+  | 'map_vote';
+
+export interface JournalEvent {
+  /**
+   * Time at which the event happened, as a UNIX timestamp in milliseconds.
+   */
+  time: number;
+  type: JournalEventType;
+  /**
+   * Username of the player the event is about, or `null` if the event isn't about a specific player.
+   */
+  player: string | null;
+  /**
+   * Details that depend on the type of the event (such as the message of a chat event).
+   */
+  [detail: string]: unknown;
+}
+
+export interface MapVoteEntry {
+  /**
+   * Hash of the map's data, which identifies the map.
+   */
+  id: string;
+  /**
+   * Name of the map, or `null` if the server hasn't seen it yet. The server learns the names of maps through map
+   * requests and the playlist.
+   */
+  name: string | null;
+  author: string | null;
+  /**
+   * Vote of each player who voted the map, by username: 1 for a like, -1 for a dislike.
+   */
+  votes: Record<string, 1 | -1>;
+}
+
+export interface PlaylistEntry {
+  name: string;
+  /**
+   * The map, in its encoded form.
+   */
+  map: string;
+}
+
+export interface XpConfig {
+  /**
+   * If `true`, levels are calculated by the server from the XP it awarded to each account, instead of being provided
+   * by the players.
+   */
+  enabled: boolean;
+  /**
+   * Amount of XP awarded every time a player gains XP.
+   */
+  xpPerGain: number;
+  /**
+   * Minimum time (in seconds) between two XP gains of the same player.
+   */
+  cooldown: number;
+  /**
+   * Maximum amount of XP a player can gain per day (UTC). Set to 0 to remove the limit.
+   */
+  dailyLimit: number;
+}
+
+export interface PlaylistConfig {
+  /**
+   * If `true`, the server will change the map to the next one in the playlist every time the room returns to the
+   * lobby after a game.
+   */
+  autoAdvance: boolean;
+  /**
+   * Order in which the playlist is played. `sequential` plays the maps in the order they are in the playlist, while
+   * `shuffle` picks a random map every time (never the same one twice in a row).
+   */
+  order: 'sequential' | 'shuffle';
+}
+
+export interface RoomStateConfig {
+  /**
+   * If `true`, the room's state is saved periodically and restored when the server starts.
+   */
+  enabled: boolean;
+  /**
+   * Time (in seconds) between two snapshots of the room's state. Snapshots are only written if the state changed.
+   * Must be greater than 0, and only changes on a restart.
+   */
+  saveInterval: number;
+  /**
+   * If `true`, the player who was the host when the server stopped gets their host privileges back when they
+   * rejoin, unless someone else has been made host on purpose in the meantime.
+   */
+  restoreHost: boolean;
+}
+
+export interface RoomStateSnapshot {
+  roomName: string;
+  password: string | null;
+  gameSettings: GameSettings;
+  /**
+   * Username of the host, or `null` if the room had no host (or the host was a guest).
+   */
+  host: string | null;
+  /**
+   * Team of each player (by username). Guests aren't included, as anyone can use their usernames.
+   */
+  teams: Record<string, number>;
+}
+
+export interface ShutdownConfig {
+  /**
+   * Maximum time (in seconds) to wait for players to leave on their own before disconnecting them.
+   */
+  drainTimeout: number;
+  /**
+   * Signals that mean the server is being restarted rather than stopped. Hosting services usually send SIGTERM when
+   * redeploying the server, while SIGINT usually comes from someone pressing Ctrl+C.
+   */
+  restartSignals: NodeJS.Signals[];
+  /**
+   * Message shown to players when the server is restarting, so that they know when to expect the room back.
+   */
+  restartMessage: string;
+}
+
+export interface RecordingsConfig {
+  /**
+   * If `true`, every game played in the room will be recorded.
+   */
+  enabled: boolean;
+  /**
+   * Maximum amount of recordings kept per room. Once this amount is reached, the oldest recordings are deleted to
+   * make room for new ones. Set to 0 to keep every recording.
+   */
+  maxRecordings: number;
+}
+
+export interface RecordingEvent {
+  /**
+   * Time since the start of the game, in milliseconds.
+   */
+  time: number;
+  /**
+   * Game tick at which the event happened (bonk runs at 30 ticks per second).
+   */
+  tick: number;
+  type: 'inputs' | 'join' | 'leave';
+  /**
+   * Id of the player that sent the inputs, joined or left.
+   */
+  playerId: number;
+  /**
+   * Inputs sent by the player (for `inputs` events), or the player's username (for `join` events).
+   */
+  data?: unknown;
+}
+
+export interface GameRecording {
+  /**
+   * Version of the recording format. Increased every time the format changes in a way that isn't backwards
+   * compatible.
+   */
+  version: number;
+  roomId: string;
+  /**
+   * Time at which the game started and ended, as UNIX timestamps in milliseconds. `endedAt` is `null` while the game
+   * is being recorded.
+   */
+  startedAt: number;
+  endedAt: number | null;
+  /**
+   * Game settings and initial state sent by the host when starting the game.
+   */
+  gameSettings: GameSettings;
+  initialState: unknown;
+  /**
+   * Players that were in the room when the game started.
+   */
+  players: { id: number; userName: string; guest: boolean; level: number; team: number }[];
+  /**
+   * Inputs, joins and leaves, in the order they happened.
+   */
+  events: RecordingEvent[];
+}
+
+export interface AdminApiConfig {
+  /**
+   * If `true`, the admin API will be available at `/api`.
+   */
+  enabled: boolean;
+  /**
+   * Token required to use the admin API. Requests must include it in an `Authorization: Bearer {token}` header. The
+   * admin API stays disabled while the token is empty.
+   */
+  token: string | null;
+}
+
+export interface DashboardConfig {
+  /**
+   * If `true`, the admin dashboard will be available at `/admin`.
+   */
+  enabled: boolean;
+  /**
+   * Username required to log into the dashboard.
+   */
+  username: string;
+  /**
+   * Password required to log into the dashboard. The dashboard stays disabled while the password is empty.
+   */
+  password: string | null;
+}
+
+export interface MetricsConfig {
+  /**
+   * If `true`, the metrics will be available at `/metrics`.
+   */
+  enabled: boolean;
+  /**
+   * Token that gives access to the metrics when sent in an `Authorization: Bearer {token}` header. Use a long,
+   * random string.
+   */
+  token: string | null;
+  /**
+   * Addresses (or CIDR ranges, such as `10.0.0.0/8`) that can access the metrics without a token.
+   */
+  allowedAddresses: string[];
+}
+
+export type WebhookEventType = JournalEventType | 'server_closing';
+
+export interface WebhookTarget {
+  /**
+   * URL the events are sent to.
+   */
+  url: string;
+  /**
+   * Secret used to sign the requests, so that the target can check that they come from the server. Leave empty to
+   * send unsigned requests.
+   */
+  secret: string;
+  /**
+   * Events sent to this target. Leave empty to send every event.
+   */
+  events: WebhookEventType[];
+}
+
+export interface WebhooksConfig {
+  /**
+   * Services that receive the events.
+   */
+  targets: WebhookTarget[];
+  /**
+   * Amount of times a failed request is retried before the event is dropped.
+   */
+  maxRetries: number;
+  /**
+   * Time (in seconds) to wait before retrying a failed request. The delay doubles after every retry.
+   */
+  retryDelay: number;
+  /**
+   * Time (in seconds) to wait for the target to respond before considering the request failed.
+   */
+  timeout: number;
+}
+
+export interface ChatBridgeConfig {
+  /**
+   * If `true`, the chat bridge will be available at the `/bridge` namespace.
+   */
+  enabled: boolean;
+  /**
+   * Token bridge clients have to connect with. Use a long, random string. The bridge stays disabled while the token
+   * is empty.
+   */
+  token: string | null;
+  /**
+   * Text shown before the author of every message sent through the bridge.
+   */
+  label: string;
+  /**
+   * Color of the messages sent through the bridge.
+   */
+  color: string;
+  /**
+   * Ratelimit for sending messages through the bridge, shared by every author of a bridge client. Works the same way
+   * as the ratelimits in `restrictions.ratelimits`.
+   */
+  ratelimit: ServerConfigRatelimit;
+}
+
+export interface PluginsConfig {
+  /**
+   * If `true`, the plugins in the plugins directory will be loaded when the server starts.
+   */
+  enabled: boolean;
+  /**
+   * Directory the plugins are loaded from, relative to the root folder of the server.
+   */
+  directory: string;
+}
+
+export interface RoomConfig {
+  /**
+   * Identifier of the room. Used to reach the room through its path (`/{id}`) and to target it from the terminal.
+   * Can only contain letters, numbers, underscores and dashes.
+   */
+  id: string;
+
+  /**
+   * Room name used by this room upon startup. Defaults to the `roomNameOnStartup` set at the root of the config.
+   */
+  roomNameOnStartup?: string;
+
+  /**
+   * Password used by this room upon startup. Defaults to the `roomPasswordOnStartup` set at the root of the config.
+   */
+  roomPasswordOnStartup?: string | null;
+
+  /**
+   * Game settings used by this room upon startup. Defaults to the `defaultGameSettings` set at the root of the config.
+   */
+  defaultGameSettings?: GameSettings;
+
+  /**
+   * Maximum amount of players that can be in this room at the same time. Defaults to the `maxPlayers` set at the root
+   * of the config.
+   */
+  maxPlayers?: number;
+
+  /**
+   * Controls whether this room automatically assigns a host. Defaults to the `autoAssignHost` set at the root of the
+   * config.
+   */
+  autoAssignHost?: boolean;
+
+  /**
+   * Controls whether the host of this room can change the room's name and password from the game. Defaults to the
+   * `hostRoomSettings` set at the root of the config.
+   */
+  hostRoomSettings?: HostRoomSettingsConfig;
 }
 
 export type Config = {
@@ -135,6 +885,13 @@ export type Config = {
    */
   useHttps: boolean;
 
+  /**
+   * If `true`, the server will watch the config file (`config.json`, `config.yaml` or the one given through
+   * `--config`) and apply its changes as soon as it's saved, just like the "reload" terminal command does. Settings
+   * that can only change on a restart (such as the port and `maxPlayers`) keep their current values.
+   */
+  watchConfigFile: boolean;
+
   /**
    * Room name used by the server upon startup. The room name can later be
    * changed through the console while the server is running.
@@ -165,6 +922,14 @@ export type Config = {
    */
   autoAssignHost: boolean;
 
+  /**
+   * Controls whether the host can change the room's name and password from
+   * the game. If disabled, attempts to change them are rejected, and the
+   * values set through the console (or the room's startup values) always
+   * win.
+   */
+  hostRoomSettings: HostRoomSettingsConfig;
+
   /**
    * Timestamp format used for chat logs.
    */
@@ -175,6 +940,156 @@ export type Config = {
    * well as players trying to join the room.
    */
   restrictions: ConfigRestrictions;
+
+  /**
+   * Settings for chat commands, which allow players to perform certain actions by sending chat messages that start
+   * with a prefix (for example, "!help"). Replies to commands can only be seen by the player who used the command.
+   */
+  chatCommands: ChatCommandsConfig;
+
+  /**
+   * Settings for player roles, which give players moderation powers (usable through chat commands) without giving
+   * them host privileges. Roles are managed through the "role" and "roles" terminal commands.
+   */
+  roles: RolesConfig;
+
+  /**
+   * Settings for server-side XP. By default, the server trusts the level that players say they have when they join,
+   * which can be spoofed. When server-side XP is enabled, the server keeps track of the XP of every account (in their
+   * profile) instead, awarding it when players ask for it during games, and uses the level calculated from it as the
+   * level of the player, including for the `minLevel` and `maxLevel` restrictions. Guests are always level 0.
+   */
+  xp: XpConfig;
+
+  /**
+   * Settings for the map playlist, a list of maps stored by the server that the room can rotate through on its own,
+   * even if there's no host. Maps are added to the playlist through the "playlistadd" terminal command, which adds the
+   * map currently selected in the room.
+   */
+  playlist: PlaylistConfig;
+
+  /**
+   * Settings for the room state, a snapshot of the room's name, password, game settings (map, mode, rounds, teams and
+   * balance), host and the teams of its players, saved to the `roomstate.json` file of the room every few seconds.
+   * When the server starts, the room picks up where it left off, and players who were in the room get their team back
+   * when they rejoin. The saved state takes precedence over `roomNameOnStartup`, `roomPasswordOnStartup` and
+   * `defaultGameSettings`, and can be reset to them through the "resetroom" terminal command.
+   */
+  roomState: RoomStateConfig;
+
+  /**
+   * Settings for the event journal, an append-only file in JSON Lines format where every room event (joins, leaves,
+   * chat messages, map and mode changes, host transfers, kicks, bans, games starting and ending...) is written as soon
+   * as it happens. Each room has its own journal, stored in the `journal` folder of the room. Past events can be
+   * queried through the "log" terminal command.
+   */
+  journal: JournalConfig;
+
+  /**
+   * Settings for game recordings. When enabled, every game (from the moment it starts to the moment the room returns
+   * to the lobby) is recorded, including the inputs of every player, and saved in the `recordings` folder of the room.
+   * Recordings can be listed, deleted and exported through the "recordings", "deleterecording" and "exportrecording"
+   * terminal commands.
+   */
+  recordings: RecordingsConfig;
+
+  /**
+   * Settings for shutting the server down, which happens when the "close" or "restart" terminal commands are used or
+   * when the server receives a SIGINT or SIGTERM signal (such as when pressing Ctrl+C, or when a hosting service
+   * redeploys the server). Every room is returned to the lobby and closed to new players, everyone is told about the
+   * shutdown, and once everyone has left (or the drain timeout runs out) everyone is disconnected and the chat logs,
+   * player profiles, ban lists and room states are saved. Sending a second signal skips the wait.
+   */
+  shutdown: ShutdownConfig;
+
+  /**
+   * List of rooms hosted by the server. Each room has its own players, host, settings, password, ban list and chat
+   * logs. Any setting left out of a room uses the value set at the root of the config.
+   *
+   * The first room in the list is the default room: it's reachable at the root of the server and keeps its files
+   * (ban list, chat logs) at the root folder of the server. Every other room is reachable at `/{id}` and keeps its
+   * files in `rooms/{id}/`. If the list is empty, a single room is hosted using the settings at the root of the config.
+   */
+  rooms: RoomConfig[];
+
+  /**
+   * Settings for the admin API, a token-protected REST API that allows performing the same actions as the terminal
+   * through HTTP requests. This is useful when hosting the server somewhere where the terminal isn't accessible.
+   */
+  adminApi: AdminApiConfig;
+
+  /**
+   * Settings for the admin dashboard, a web page that shows the live state of every room (players, game settings and
+   * chat) and allows kicking, banning, transferring host and scheduling the closing of rooms.
+   */
+  dashboard: DashboardConfig;
+
+  /**
+   * Settings for the metrics endpoint, which shows the activity of every room (players, join attempts and rejections,
+   * ratelimit hits, packets received, games played and chat messages) at `/metrics`, in the format used by
+   * Prometheus. The endpoint can only be accessed from the allowed addresses, or with the metrics token. It stays
+   * disabled if neither a token nor allowed addresses are set.
+   */
+  metrics: MetricsConfig;
+
+  /**
+   * Settings for webhooks, which send room events to other services as they happen, through JSON POST requests. The
+   * events are the same ones written to the journal (joins, leaves, chat messages, kicks, bans, unbans, host
+   * transfers, games starting, rooms returning to the lobby...), plus `server_closing` when the server shuts down.
+   * Every request has the following body:
+   *
+   * ```
+   * { "id": string, "event": string, "time": number, "room": string | null, "player": string | null, "data": {...} }
+   * ```
+   *
+   * If the target has a secret, the request includes an `X-Manifold-Signature: sha256={signature}` header, where the
+   * signature is the HMAC-SHA256 of the body (in hex), using the secret as the key. Failed requests are retried with
+   * an increasing delay.
+   *
+   * Example of a target that only receives chat messages and bans:
+   *
+   * ```
+   * targets: [{ url: 'https://example.com/manifold', secret: 'a long random string', events: ['chat', 'ban'] }],
+   * ```
+   */
+  webhooks: WebhooksConfig;
+
+  /**
+   * Settings for the chat bridge, which relays the chat of every room to another chat (such as a Discord channel)
+   * and back. Bridge clients connect to the `/bridge` socket.io namespace with the bridge token
+   * (`io('{server url}/bridge', { auth: { token } })`), and then:
+   *
+   * - receive `chat`, `join` and `leave` events as they happen, with a `{ room, time, player, ... }` object.
+   * - send messages to a room by emitting `message` with `{ room, author, message }` (`room` can be left out to send
+   *   the message to the first room) and an optional callback, which receives `{ error }` if the message wasn't sent.
+   *
+   * Messages sent through the bridge show up in the room as status messages, under the bridge label. They go through
+   * the chat filter and the bridge ratelimit, and are logged like any other chat message.
+   */
+  chatBridge: ChatBridgeConfig;
+
+  /**
+   * Settings for plugins, which are loaded from the plugins directory when the server starts. Each plugin is a
+   * JavaScript or TypeScript file whose default export has a `name` and a `setup` function, which receives the plugin
+   * API (see `src/plugins.ts`). Through the API, plugins can hook into joins, leaves, chat messages, map changes, game
+   * starts and every packet received (changing or rejecting some of them), register terminal and chat commands, and
+   * kick players, send messages and change room settings.
+   *
+   * Example of a plugin (`plugins/greeter.ts`):
+   *
+   * ```
+   * import { ManifoldPlugin } from '../src/plugins';
+   *
+   * export default {
+   *   name: 'greeter',
+   *   setup(api) {
+   *     api.on('onJoin', (event) => api.sendMessage(event.room, `* Welcome, ${event.userName}!`, event.playerId));
+   *     api.on('beforeChat', (event) => (event.message.includes('secret') ? 'No secrets allowed.' : undefined));
+   *   },
+   * } as ManifoldPlugin;
+   * ```
+   */
+  plugins: PluginsConfig;
 };
 
 declare interface GameSettings {
@@ -454,6 +1369,23 @@ export interface Player {
 export interface TerminalCommand {
   usage: string;
   description: string;
-  callback: (cmd: string[], server: ManifoldServer) => void;
+  callback: (cmd: string[], room: ManifoldRoom) => void;
   aliases?: string[];
 }
+
+export interface ChatCommand {
+  /**
+   * How to use the command, without the command prefix.
+   */
+  usage: string;
+  description: string;
+  /**
+   * Function called when a player uses the command. `args` doesn't include the command name.
+   */
+  callback: (args: string[], playerId: number, room: ManifoldRoom) => void;
+  aliases?: string[];
+  /**
+   * Role required to use the command. If not set, every player can use the command.
+   */
+  requiredRole?: PlayerRole;
+}
@@ -0,0 +1,38 @@
+import crypto from 'node:crypto';
+
+const durationUnits: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Compare two strings in constant time, to avoid leaking secrets (such as tokens or passwords) through timing attacks.
+ */
+export function safeCompare(a: string, b: string): boolean {
+  const hashA = crypto.createHash('sha256').update(a).digest();
+  const hashB = crypto.createHash('sha256').update(b).digest();
+
+  return crypto.timingSafeEqual(hashA, hashB);
+}
+
+/**
+ * Get the level that corresponds to an amount of XP, using bonk's formula (level N requires (N - 1)² * 100 XP).
+ */
+export function getLevelFromXp(xp: number): number {
+  return Math.floor(Math.sqrt(xp / 100)) + 1;
+}
+
+/**
+ * Parse a duration such as "30s", "10m", "2h", "7d" or "1w" into milliseconds. Numbers without a unit are treated as
+ * minutes. Returns `undefined` if the duration is invalid.
+ */
+export function parseDuration(duration: string): number | undefined {
+  const match = /^([0-9]+(?:\.[0-9]+)?)([smhdw]?)$/.exec(duration.trim().toLowerCase());
+  if (!match) return undefined;
+
+  const milliseconds = parseFloat(match[1]) * durationUnits[match[2] || 'm'];
+  return milliseconds > 0 ? milliseconds : undefined;
+}
@@ -0,0 +1,124 @@
+import crypto from 'node:crypto';
+
+import ManifoldServer from './server';
+import ManifoldRoom from './room';
+import ManifoldTerminal from './terminal';
+import { WebhookEventType, WebhookTarget } from './types';
+
+export interface WebhookPayload {
+  /**
+   * Unique id of the event, which stays the same across retries so that targets can skip events they already got.
+   */
+  id: string;
+  event: WebhookEventType;
+  /**
+   * Time at which the event happened, as a UNIX timestamp in milliseconds.
+   */
+  time: number;
+  /**
+   * Id of the room the event happened in, or `null` if the event is about the whole server.
+   */
+  room: string | null;
+  player: string | null;
+  /**
+   * Details that depend on the event, the same ones written to the journal.
+   */
+  data: Record<string, unknown>;
+}
+
+/**
+ * Sends the events of every room (and of the server itself) to the webhook targets in the config, as signed JSON POST
+ * requests. Failed requests are retried with an increasing delay, without holding up the room.
+ */
+export default class ManifoldWebhooks {
+  public server: ManifoldServer;
+
+  /**
+   * Amount of requests that haven't succeeded or run out of retries yet.
+   */
+  public pendingDeliveries: number = 0;
+
+  constructor(server: ManifoldServer) {
+    this.server = server;
+  }
+
+  get config() {
+    return this.server.config.webhooks;
+  }
+
+  /**
+   * Send an event to every target that wants it.
+   */
+  send(event: WebhookEventType, room: ManifoldRoom | null, player: string | null, data: Record<string, unknown> = {}) {
+    const targets = this.config.targets.filter((target) => target.events.length == 0 || target.events.includes(event));
+    if (targets.length == 0) return;
+
+    const payload: WebhookPayload = {
+      id: crypto.randomUUID(),
+      event,
+      time: Date.now(),
+      room: room?.id ?? null,
+      player,
+      data,
+    };
+    const body = JSON.stringify(payload);
+
+    for (const target of targets) {
+      this.deliver(target, event, body);
+    }
+  }
+
+  /**
+   * Signature of a request body, which targets can compute on their own with the shared secret to check where the
+   * request came from.
+   */
+  static sign(body: string, secret: string): string {
+    return 'sha256=' + crypto.createHmac('sha256', secret).update(body).digest('hex');
+  }
+
+  private async deliver(target: WebhookTarget, event: WebhookEventType, body: string) {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'manifold-server',
+      'X-Manifold-Event': event,
+    };
+    if (target.secret) headers['X-Manifold-Signature'] = ManifoldWebhooks.sign(body, target.secret);
+
+    this.pendingDeliveries++;
+    let problem = '';
+
+    for (let attempt = 0; attempt <= this.config.maxRetries; attempt++) {
+      if (attempt > 0) {
+        const delay = this.config.retryDelay * 2 ** (attempt - 1);
+        await new Promise((resolve) => setTimeout(resolve, delay * 1000));
+      }
+
+      try {
+        const response = await fetch(target.url, {
+          method: 'POST',
+          headers,
+          body,
+          signal: AbortSignal.timeout(this.config.timeout * 1000),
+        });
+
+        // the response body isn't used, but it has to be consumed or cancelled for the connection to be released
+        await response.body?.cancel();
+
+        if (response.ok) {
+          this.pendingDeliveries--;
+          return;
+        }
+
+        problem = `status ${response.status}`;
+
+        // the target turned the event down, so sending it again won't help. timeouts and ratelimits are the exception
+        if (response.status >= 400 && response.status < 500 && ![408, 429].includes(response.status)) break;
+      } catch (error) {
+        problem = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    ManifoldTerminal.consoleLog(`Webhook "${event}" to ${target.url} failed (${problem}). Giving up.`);
+    this.pendingDeliveries--;
+  }
+}
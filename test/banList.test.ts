@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+
+import ManifoldBanList from '../src/banList';
+
+describe('ManifoldBanList', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'manifold-bans-'));
+    filePath = path.join(directory, 'banlist.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('migrates ban lists in the old format and keeps a backup of them', () => {
+    const oldBanList = { addresses: ['1.2.3.4', '5.6.7.8'], usernames: ['alice', 'bob', 'carol'] };
+    fs.writeFileSync(filePath, JSON.stringify(oldBanList));
+
+    const banList = new ManifoldBanList(filePath);
+
+    assert.deepEqual(
+      banList.bans.map((ban) => [ban.id, ban.username, ban.address]),
+      [
+        [1, 'alice', '1.2.3.4'],
+        [2, 'bob', '5.6.7.8'],
+        [3, 'carol', null],
+      ],
+    );
+    assert.deepEqual(JSON.parse(fs.readFileSync(filePath.replace(/\.json$/, '.old.json'), 'utf8')), oldBanList);
+    assert.equal(new ManifoldBanList(filePath).nextId, 4);
+  });
+
+  it('finds bans by username or address, ignoring expired ones', () => {
+    const banList = new ManifoldBanList(filePath);
+    const ban = { reason: '', issuedBy: 'terminal' };
+
+    banList.add({ ...ban, username: 'alice', address: null, expiresAt: null });
+    banList.add({ ...ban, username: 'bob', address: null, expiresAt: Date.now() - 1000 });
+    banList.add({ ...ban, username: null, address: '10.0.0.0/8', expiresAt: Date.now() + 60000 });
+
+    assert.equal(banList.find('alice', '1.1.1.1')?.id, 1);
+    assert.equal(banList.find('bob', '1.1.1.1'), undefined);
+    assert.equal(banList.find('carol', '::ffff:10.20.30.40')?.id, 3);
+
+    assert.deepEqual(
+      banList.removeExpired().map((i) => i.id),
+      [2],
+    );
+    assert.deepEqual(
+      banList.remove('#1').map((i) => i.id),
+      [1],
+    );
+    assert.deepEqual(
+      banList.remove('10.0.0.0/8').map((i) => i.id),
+      [3],
+    );
+  });
+
+  it('checks addresses and CIDR ranges', () => {
+    assert.equal(ManifoldBanList.isValidAddress('192.168.0.1'), true);
+    assert.equal(ManifoldBanList.isValidAddress('192.168.0.0/16'), true);
+    assert.equal(ManifoldBanList.isValidAddress('2001:db8::/32'), true);
+    assert.equal(ManifoldBanList.isValidAddress('192.168.0.0/33'), false);
+    assert.equal(ManifoldBanList.isValidAddress('192.168.0.0/8/8'), false);
+    assert.equal(ManifoldBanList.isValidAddress('not an address'), false);
+  });
+
+  it('matches addresses against CIDR ranges', () => {
+    assert.equal(ManifoldBanList.addressMatches('192.168.0.0/16', '192.168.45.6'), true);
+    assert.equal(ManifoldBanList.addressMatches('192.168.0.0/16', '192.169.0.1'), false);
+    assert.equal(ManifoldBanList.addressMatches('1.2.3.4', '::ffff:1.2.3.4'), true);
+    assert.equal(ManifoldBanList.addressMatches('2001:db8::/32', '2001:db8:1::1'), true);
+    assert.equal(ManifoldBanList.addressMatches('2001:db8::/32', '2001:db9::1'), false);
+  });
+});
@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import config from '../config';
+import ManifoldChatFilter from '../src/chatFilter';
+import ManifoldRoom from '../src/room';
+
+type ChatFilterConfig = typeof config.restrictions.chatFilter;
+
+/**
+ * Create a chat filter for a stand-in room with one player (id 0), which records the penalties the player gets.
+ */
+function createChatFilter(settings: Partial<ChatFilterConfig> = {}) {
+  const penalties: string[] = [];
+  let muted = false;
+
+  const room = {
+    config: { restrictions: { chatFilter: { ...config.restrictions.chatFilter, ...settings } } },
+    playerSockets: [{ handshake: { address: '1.2.3.4' } }],
+    sendPlayerStatusMessage: () => penalties.push('warn'),
+    mutePlayer: () => {
+      muted = true;
+      penalties.push('mute');
+    },
+    getPlayerMute: () => (muted ? {} : undefined),
+    kickPlayer: () => penalties.push('kick'),
+  };
+
+  return { chatFilter: new ManifoldChatFilter(room as unknown as ManifoldRoom), penalties };
+}
+
+describe('ManifoldChatFilter', () => {
+  it('censors, blocks and mutes blocked words, keeping the most severe action', () => {
+    const { chatFilter } = createChatFilter({
+      blockedWords: [
+        { pattern: 'heck', action: 'censor' },
+        { pattern: 'dang', action: 'block' },
+        { pattern: 'ass', action: 'mute' },
+      ],
+    });
+
+    assert.deepEqual(chatFilter.applyRules('oh HECK'), { text: 'oh ****', action: 'censor', reason: 'blocked word' });
+    assert.equal(chatFilter.applyRules('heck, dang').action, 'block');
+    assert.equal(chatFilter.applyRules('dang ass').action, 'mute');
+    assert.deepEqual(chatFilter.applyRules('a classic move'), { text: 'a classic move' });
+  });
+
+  it('matches blocked patterns and skips invalid ones', () => {
+    const { chatFilter } = createChatFilter({
+      blockedPatterns: [
+        { pattern: 'free\\s*skins', action: 'block' },
+        { pattern: '(unclosed', action: 'block' },
+      ],
+    });
+
+    assert.equal(chatFilter.applyRules('get FREE   skins here').action, 'block');
+    assert.equal(chatFilter.applyRules('skins are free').action, undefined);
+  });
+
+  it('censors links to domains that are not allowed', () => {
+    const { chatFilter } = createChatFilter({
+      links: { enabled: true, action: 'censor', allowedDomains: ['bonk.io'] },
+    });
+
+    assert.equal(chatFilter.applyRules('see https://bonk.io/123 and play.bonk.io').action, undefined);
+    assert.deepEqual(chatFilter.applyRules('go to example.com'), {
+      text: 'go to ***********',
+      action: 'censor',
+      reason: 'links are not allowed',
+    });
+  });
+
+  it('removes zalgo and invisible characters', () => {
+    const { chatFilter } = createChatFilter();
+
+    assert.equal(chatFilter.applyRules('he\u0301\u0302\u0303\u0304\u0305llo').text, 'he\u0301\u0302\u0303llo');
+    assert.equal(chatFilter.applyRules('hi\u200Bthere').text, 'hithere');
+    assert.equal(chatFilter.applyRules('cafe\u0301').action, undefined);
+  });
+
+  it('lowercases messages with too many capital letters', () => {
+    const { chatFilter } = createChatFilter({ caps: { enabled: true, action: 'censor', minLength: 8, maxRatio: 0.7 } });
+
+    assert.equal(chatFilter.filterChatMessage(0, 'STOP SHOUTING').text, 'stop shouting');
+    assert.equal(chatFilter.filterChatMessage(0, 'GG').action, undefined);
+  });
+
+  it('blocks messages repeated too many times', () => {
+    const { chatFilter } = createChatFilter();
+
+    for (let i = 0; i < 3; i++) assert.equal(chatFilter.filterChatMessage(0, 'Spam').action, undefined);
+
+    assert.equal(chatFilter.filterChatMessage(0, 'spam ').action, 'block');
+    assert.equal(chatFilter.filterChatMessage(1, 'spam').action, undefined);
+  });
+
+  it('does nothing when disabled', () => {
+    const { chatFilter } = createChatFilter({ enabled: false, blockedWords: [{ pattern: 'heck', action: 'block' }] });
+
+    assert.deepEqual(chatFilter.filterChatMessage(0, 'heck'), { text: 'heck' });
+  });
+
+  it('warns, mutes and then kicks players who keep getting their messages blocked', () => {
+    const { chatFilter, penalties } = createChatFilter();
+
+    for (let i = 0; i < 5; i++) chatFilter.penalize(0, 'block', 'blocked word');
+
+    // the offenses committed while muted still count towards the kick
+    assert.deepEqual(penalties, ['warn', 'warn', 'warn', 'mute', 'kick']);
+  });
+
+  it('mutes right away for rules with the mute action, and never penalizes censoring', () => {
+    const { chatFilter, penalties } = createChatFilter();
+
+    chatFilter.penalize(0, 'censor', 'blocked word');
+    chatFilter.penalize(0, 'mute', 'blocked word');
+
+    assert.deepEqual(penalties, ['warn', 'mute']);
+  });
+});
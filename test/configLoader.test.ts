@@ -0,0 +1,241 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+
+import config from '../config';
+import {
+  ConfigError,
+  diffConfig,
+  getSetting,
+  getSettingRange,
+  loadConfig,
+  mergeConfig,
+  parseArgs,
+  parseEnv,
+  readConfigFile,
+  setSetting,
+  validateConfig,
+} from '../src/configLoader';
+
+/**
+ * Get the generic paths of every numeric setting in a config, including list items.
+ */
+function getNumericSettings(value: unknown, settingPath: string = ''): string[] {
+  if (typeof value == 'number') return [settingPath];
+  if (Array.isArray(value)) return value.flatMap((item) => getNumericSettings(item, `${settingPath}[]`));
+  if (typeof value !== 'object' || value === null || value instanceof RegExp) return [];
+
+  return Object.entries(value).flatMap(([key, item]) =>
+    getNumericSettings(item, settingPath ? `${settingPath}.${key}` : key),
+  );
+}
+
+describe('validateConfig', () => {
+  it('accepts a config that leaves out every setting', () => {
+    assert.deepEqual(validateConfig(config, {}), []);
+  });
+
+  it('rejects settings of the wrong type and unknown settings', () => {
+    assert.deepEqual(validateConfig(config, []), ['The config must be an object.']);
+    assert.deepEqual(validateConfig(config, { port: '3000', useHttps: 1, restrictions: { levels: { maxLevl: 5 } } }), [
+      'port must be a number, got "3000".',
+      'useHttps must be a boolean, got 1.',
+      'restrictions.levels.maxLevl is not a known setting.',
+    ]);
+  });
+
+  it('checks regular expressions and settings that can be null', () => {
+    assert.deepEqual(validateConfig(config, { roomPasswordOnStartup: null }), []);
+    assert.equal(validateConfig(config, { roomPasswordOnStartup: 5 }).length, 1);
+    assert.deepEqual(validateConfig(config, { restrictions: { usernames: { disallowRegex: '[a-z]+' } } }), []);
+    assert.equal(validateConfig(config, { restrictions: { usernames: { disallowRegex: '[a-z' } } }).length, 1);
+  });
+
+  it('checks the range of numeric settings', () => {
+    assert.deepEqual(
+      validateConfig(config, {
+        port: 70000,
+        maxPlayers: 2.5,
+        restrictions: { ratelimits: { chatting: { amount: 0, timeframe: 0 } }, chatFilter: { caps: { maxRatio: 2 } } },
+      }),
+      [
+        'port must be a whole number between 0 and 65535, got 70000.',
+        'maxPlayers must be a whole number of at least 1, got 2.5.',
+        'restrictions.ratelimits.chatting.amount must be a whole number of at least 1, got 0.',
+        'restrictions.ratelimits.chatting.timeframe must be a number greater than 0, got 0.',
+        'restrictions.chatFilter.caps.maxRatio must be a number between 0 and 1, got 2.',
+      ],
+    );
+  });
+
+  it('has a range for every numeric setting', () => {
+    const numericSettings = [...getNumericSettings(config), 'defaultGameSettings.bal[]'];
+
+    assert.deepEqual(
+      numericSettings.filter((settingPath) => !getSettingRange(settingPath)),
+      [],
+    );
+  });
+
+  it('checks list items, including those of lists that are empty by default', () => {
+    assert.deepEqual(
+      validateConfig(config, {
+        defaultGameSettings: { bal: [10, 'a', 200] },
+        restrictions: {
+          chatFilter: {
+            blockedWords: [{ pattern: 'heck', action: 'delete' }, 'dang'],
+            links: { allowedDomains: ['bonk.io', 5] },
+          },
+        },
+      }),
+      [
+        'defaultGameSettings.bal[1] must be a number, got "a".',
+        'defaultGameSettings.bal[2] must be a whole number between -100 and 100, got 200.',
+        'restrictions.chatFilter.blockedWords[0].action must be one of: censor, block, mute.',
+        'restrictions.chatFilter.blockedWords[1] must be an object.',
+        'restrictions.chatFilter.links.allowedDomains[1] must be a string, got 5.',
+      ],
+    );
+  });
+
+  it('checks the settings of each room', () => {
+    assert.deepEqual(validateConfig(config, { rooms: [{ id: 'main', maxPlayers: 8 }, { id: 'second' }] }), []);
+    assert.deepEqual(validateConfig(config, { rooms: {} }), ['rooms must be a list.']);
+    assert.deepEqual(validateConfig(config, { rooms: [5, { maxPlayers: 0 }, { id: 'x', port: 80 }] }), [
+      'rooms[0] must be an object.',
+      'rooms[1].id must be a string.',
+      'rooms[1].maxPlayers must be a whole number of at least 1, got 0.',
+      'rooms[2].port is not a setting that can be set for a single room.',
+    ]);
+  });
+
+  it('checks settings that depend on each other', () => {
+    const penalties = (muteAfter: number, kickAfter: number) => ({
+      restrictions: { chatFilter: { penalties: { muteAfter, kickAfter } } },
+    });
+
+    assert.deepEqual(validateConfig(config, penalties(3, 3)), [
+      'restrictions.chatFilter.penalties.kickAfter must be greater than restrictions.chatFilter.penalties.muteAfter.',
+    ]);
+    assert.deepEqual(validateConfig(config, penalties(3, 0)), []);
+    assert.deepEqual(validateConfig(config, penalties(0, 1)), []);
+    assert.deepEqual(validateConfig(config, { restrictions: { levels: { minLevel: 10, maxLevel: 5 } } }), [
+      'restrictions.levels.maxLevel cannot be lower than restrictions.levels.minLevel.',
+    ]);
+  });
+});
+
+describe('mergeConfig', () => {
+  it('merges objects and replaces lists', () => {
+    const merged = mergeConfig(config, {
+      port: 8080,
+      restrictions: { levels: { maxLevel: 50 } },
+      defaultGameSettings: { bal: [5] },
+    } as never);
+
+    assert.equal(merged.port, 8080);
+    assert.equal(merged.restrictions.levels.maxLevel, 50);
+    assert.equal(merged.restrictions.levels.minLevel, config.restrictions.levels.minLevel);
+    assert.deepEqual(merged.defaultGameSettings.bal, [5]);
+    assert.equal(merged.defaultGameSettings.wl, config.defaultGameSettings.wl);
+    assert.equal(config.port, 3000);
+  });
+
+  it('turns regular expressions written as strings into regular expressions', () => {
+    const merged = mergeConfig(config, { restrictions: { usernames: { disallowRegex: '^admin' } } } as never);
+
+    assert.ok(merged.restrictions.usernames.disallowRegex instanceof RegExp);
+    assert.equal(merged.restrictions.usernames.disallowRegex.test('administrator'), true);
+  });
+
+  it('merges the settings of each room on top of the rest of the config', () => {
+    const merged = mergeConfig(config, {
+      maxPlayers: 10,
+      hostRoomSettings: { allowChangingName: false },
+      rooms: [{ id: 'main' }, { id: 'second', maxPlayers: 4, hostRoomSettings: { allowChangingPassword: false } }],
+    } as never);
+
+    assert.deepEqual(merged.rooms[0], { id: 'main' });
+    assert.equal(merged.rooms[1].maxPlayers, 4);
+    assert.deepEqual(merged.rooms[1].hostRoomSettings, { ...merged.hostRoomSettings, allowChangingPassword: false });
+    assert.equal(merged.hostRoomSettings.allowChangingName, false);
+  });
+});
+
+describe('config options', () => {
+  it('reads command line flags', () => {
+    assert.deepEqual(parseArgs(['--config', 'a.yaml', '-p', '8080', '--no-https']), {
+      configPath: 'a.yaml',
+      port: 8080,
+      useHttps: false,
+    });
+    assert.throws(() => parseArgs(['--port', 'abc']), ConfigError);
+    assert.throws(() => parseArgs(['--port', '70000']), ConfigError);
+    assert.throws(() => parseArgs(['--config']), ConfigError);
+    assert.throws(() => parseArgs(['--verbose']), ConfigError);
+  });
+
+  it('reads environment variables', () => {
+    assert.deepEqual(parseEnv({ MANIFOLD_CONFIG: 'a.json', PORT: '80', MANIFOLD_HTTPS: 'true' }), {
+      configPath: 'a.json',
+      port: 80,
+      useHttps: true,
+    });
+    assert.throws(() => parseEnv({ MANIFOLD_HTTPS: 'yes' }), ConfigError);
+  });
+
+  it('loads JSON and YAML files, with flags taking precedence over environment variables and files', () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'manifold-config-'));
+
+    try {
+      const jsonPath = path.join(directory, 'config.json');
+      const yamlPath = path.join(directory, 'config.yaml');
+      fs.writeFileSync(jsonPath, JSON.stringify({ port: 4000, restrictions: { levels: { maxLevel: 10 } } }));
+      fs.writeFileSync(yamlPath, 'port: 5000\nuseHttps: true\n');
+
+      assert.deepEqual(readConfigFile(yamlPath), { port: 5000, useHttps: true });
+
+      const loaded = loadConfig(config, ['--config', jsonPath], { PORT: '6000' });
+      assert.equal(loaded.port, 6000);
+      assert.equal(loaded.restrictions.levels.maxLevel, 10);
+
+      assert.equal(loadConfig(config, ['--config', yamlPath, '--port', '7000'], { PORT: '6000' }).port, 7000);
+
+      fs.writeFileSync(jsonPath, '{ "port": 4000, }');
+      assert.throws(() => loadConfig(config, ['--config', jsonPath], {}), ConfigError);
+
+      fs.writeFileSync(jsonPath, JSON.stringify({ port: -1 }));
+      assert.throws(() => loadConfig(config, ['--config', jsonPath], {}), /port must be a whole number/);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('config changes', () => {
+  it('lists the settings that changed between two configs', () => {
+    const newConfig = mergeConfig(config, {
+      restrictions: { ratelimits: { chatting: { amount: 3 } }, usernames: { disallowRegex: '^admin' } },
+      defaultGameSettings: { bal: [5] },
+    } as never);
+
+    assert.deepEqual(diffConfig(config, newConfig), [
+      'defaultGameSettings.bal',
+      'restrictions.usernames.disallowRegex',
+      'restrictions.ratelimits.chatting.amount',
+    ]);
+    assert.deepEqual(diffConfig(config, mergeConfig(config, {})), []);
+    assert.deepEqual(diffConfig({ a: 1 }, { b: 1 }), ['a', 'b']);
+  });
+
+  it('gets and sets settings through their path', () => {
+    const newConfig = setSetting(config, 'restrictions.ratelimits.chatting.amount', 3);
+
+    assert.equal(getSetting(newConfig, 'restrictions.ratelimits.chatting.amount'), 3);
+    assert.equal(getSetting(newConfig, 'restrictions.ratelimits.joining'), config.restrictions.ratelimits.joining);
+    assert.equal(getSetting(newConfig, 'port.nothing'), undefined);
+    assert.equal(config.restrictions.ratelimits.chatting.amount, 7);
+  });
+});
@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+
+import ManifoldMapVotes from '../src/mapVotes';
+
+describe('ManifoldMapVotes', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'manifold-votes-'));
+    filePath = path.join(directory, 'mapvotes.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('counts one vote per player, keeping only their latest vote', () => {
+    const mapVotes = new ManifoldMapVotes(filePath);
+
+    mapVotes.vote('map data', 'alice', 1);
+    mapVotes.vote('map data', 'bob', 1);
+    mapVotes.vote('map data', 'carol', -1);
+    mapVotes.vote('map data', 'bob', -1);
+
+    assert.deepEqual(ManifoldMapVotes.tally(mapVotes.get('map data')), { vu: 1, vd: 2 });
+    assert.deepEqual(ManifoldMapVotes.tally(mapVotes.get('other map data')), { vu: 0, vd: 0 });
+  });
+
+  it('keeps votes apart by map', () => {
+    const mapVotes = new ManifoldMapVotes(filePath);
+
+    mapVotes.vote('first map', 'alice', 1);
+    mapVotes.vote('second map', 'alice', -1);
+
+    assert.equal(mapVotes.maps.length, 2);
+    assert.deepEqual(ManifoldMapVotes.tally(mapVotes.get('first map')), { vu: 1, vd: 0 });
+    assert.deepEqual(ManifoldMapVotes.tally(mapVotes.get('second map')), { vu: 0, vd: 1 });
+  });
+
+  it('names maps with the names it has seen, before and after they are voted', () => {
+    const mapVotes = new ManifoldMapVotes(filePath);
+
+    mapVotes.setMapName('first map', 'First', 'alice');
+    mapVotes.vote('first map', 'bob', 1);
+    mapVotes.vote('second map', 'bob', 1);
+    mapVotes.setMapName('second map', 'Second', null);
+
+    assert.deepEqual(
+      mapVotes.maps.map((entry) => [entry.name, entry.author]),
+      [
+        ['First', 'alice'],
+        ['Second', null],
+      ],
+    );
+  });
+
+  it('saves votes across restarts', () => {
+    new ManifoldMapVotes(filePath).vote('map data', 'alice', 1);
+
+    const mapVotes = new ManifoldMapVotes(filePath);
+
+    assert.equal(mapVotes.get('map data')?.id, ManifoldMapVotes.getMapId('map data'));
+    assert.deepEqual(mapVotes.get('map data')?.votes, { alice: 1 });
+  });
+});
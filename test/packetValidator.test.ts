@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import socketIO from 'socket.io';
+
+import config from '../config';
+import * as IN from '../src/inPacketIds';
+import ManifoldPacketValidator from '../src/packetValidator';
+import ManifoldRoom from '../src/room';
+
+const joinRequest = {
+  userName: 'alice',
+  guest: false,
+  level: 12,
+  avatar: { layers: [], bc: 0 },
+};
+
+/**
+ * Create a packet validator for a stand-in room with two players (ids 0 and 1), along with a socket that records
+ * whether it got kicked or disconnected.
+ */
+function createPacketValidator(settings: Partial<typeof config.restrictions.packetValidation> = {}) {
+  const events: string[] = [];
+
+  const room = {
+    id: 'main',
+    config: { restrictions: { packetValidation: { ...config.restrictions.packetValidation, ...settings } } },
+    playerInfo: [{ userName: 'alice' }, { userName: 'bob' }],
+    kickPlayer: (id: number) => events.push(`kick ${id}`),
+  };
+  const socket = {
+    id: 'socket',
+    data: {},
+    handshake: { address: '1.2.3.4' },
+    disconnect: () => events.push('disconnect'),
+  };
+
+  return {
+    packetValidator: new ManifoldPacketValidator(room as unknown as ManifoldRoom),
+    socket: socket as unknown as socketIO.Socket,
+    events,
+  };
+}
+
+describe('ManifoldPacketValidator', () => {
+  it('accepts packets that match their schema', () => {
+    const { packetValidator, socket } = createPacketValidator();
+
+    assert.equal(packetValidator.checkPacket(socket, IN.JOIN_REQUEST, joinRequest), true);
+    assert.equal(packetValidator.checkPacket(socket, IN.JOIN_REQUEST, { ...joinRequest, level: '12' }), true);
+    assert.equal(packetValidator.checkPacket(socket, IN.JOIN_REQUEST, { ...joinRequest, roomPassword: 'pass' }), true);
+    assert.equal(packetValidator.checkPacket(socket, IN.CHANGE_OTHER_TEAM, { targetID: 1, targetTeam: 5 }), true);
+  });
+
+  it('rejects packets with missing, mistyped or out of range fields', () => {
+    const { packetValidator, socket } = createPacketValidator();
+    const { userName, ...joinRequestWithoutName } = joinRequest;
+
+    assert.equal(packetValidator.checkPacket(socket, IN.JOIN_REQUEST, joinRequestWithoutName), false);
+    assert.equal(packetValidator.checkPacket(socket, IN.JOIN_REQUEST, { ...joinRequest, guest: 'no' }), false);
+    assert.equal(packetValidator.checkPacket(socket, IN.JOIN_REQUEST, { ...joinRequest, level: [12] }), false);
+    assert.equal(packetValidator.checkPacket(socket, IN.CHAT_MESSAGE, { message: 'a'.repeat(1001) }), false);
+    assert.equal(packetValidator.checkPacket(socket, IN.CHANGE_OTHER_TEAM, { targetID: 2, targetTeam: 1 }), false);
+    assert.equal(packetValidator.checkPacket(socket, IN.CHANGE_OTHER_TEAM, { targetID: 1, targetTeam: 6 }), false);
+    assert.equal(packetValidator.checkPacket(socket, IN.CHANGE_ROUNDS, { w: 1.5 }), false);
+    assert.equal(packetValidator.checkPacket(socket, IN.CHAT_MESSAGE, 'hello'), false);
+  });
+
+  it('checks nested objects such as game settings', () => {
+    const { packetValidator, socket } = createPacketValidator();
+    const gs = { map: '', wl: 3, q: false, tl: false, tea: false, ga: 'b', mo: 'b', bal: [], gt: 2 };
+
+    assert.equal(packetValidator.checkPacket(socket, IN.HOST_INFORM_IN_LOBBY, { sid: 0, gs }), true);
+    assert.equal(packetValidator.checkPacket(socket, IN.HOST_INFORM_IN_LOBBY, { sid: 0, gs: { ...gs, gt: 3 } }), false);
+  });
+
+  it('lets through packets without a schema', () => {
+    const { packetValidator, socket } = createPacketValidator();
+
+    assert.equal(packetValidator.checkPacket(socket, IN.RETURN_TO_LOBBY, undefined), true);
+    assert.equal(packetValidator.checkPacket(socket, '999', 'anything'), true);
+  });
+
+  it('disconnects sockets that send too many invalid packets', () => {
+    const { packetValidator, socket, events } = createPacketValidator({ maxInvalidPackets: 3 });
+
+    for (let i = 0; i < 2; i++) packetValidator.checkPacket(socket, IN.CHAT_MESSAGE, {});
+    assert.deepEqual(events, []);
+
+    packetValidator.checkPacket(socket, IN.CHAT_MESSAGE, {});
+    assert.deepEqual(events, ['disconnect']);
+
+    socket.data.bonkId = 1;
+    for (let i = 0; i < 3; i++) packetValidator.checkPacket(socket, IN.CHAT_MESSAGE, {});
+    assert.deepEqual(events, ['disconnect', 'kick 1']);
+  });
+
+  it('lets everything through when disabled', () => {
+    const { packetValidator, socket } = createPacketValidator({ enabled: false });
+
+    assert.equal(packetValidator.checkPacket(socket, IN.CHAT_MESSAGE, {}), true);
+  });
+});
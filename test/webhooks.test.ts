@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+
+import config from '../config';
+import ManifoldServer from '../src/server';
+import ManifoldWebhooks from '../src/webhooks';
+import { WebhookTarget } from '../src/types';
+
+interface ReceivedRequest {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+  receivedAt: number;
+}
+
+describe('ManifoldWebhooks', () => {
+  let receiver: http.Server;
+  let baseUrl: string;
+  let requests: ReceivedRequest[] = [];
+
+  /**
+   * Status codes the receiver answers with, by path. Once a path runs out of status codes, it answers with 200.
+   */
+  let responses: Record<string, number[]> = {};
+
+  before(async () => {
+    receiver = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        requests.push({ path: req.url!, headers: req.headers, body, receivedAt: Date.now() });
+        res.statusCode = responses[req.url!]?.shift() ?? 200;
+        res.end('ok');
+      });
+    });
+
+    await new Promise<void>((resolve) => receiver.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    receiver.close();
+  });
+
+  /**
+   * Send an event through webhooks set up with the given targets, and wait for every delivery to finish.
+   */
+  async function send(targets: WebhookTarget[], event: 'join' | 'leave' = 'join') {
+    requests = [];
+
+    const server = { config: { webhooks: { ...config.webhooks, targets, retryDelay: 0.05, maxRetries: 3 } } };
+    const webhooks = new ManifoldWebhooks(server as unknown as ManifoldServer);
+
+    webhooks.send(event, null, 'alice', { id: 1 });
+
+    while (webhooks.pendingDeliveries > 0) await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+
+  it('signs the payload with the secret of the target', async () => {
+    await send([{ url: `${baseUrl}/signed`, secret: 's3cret', events: [] }]);
+
+    assert.equal(requests.length, 1);
+
+    const [request] = requests;
+    const { id, time, ...payload } = JSON.parse(request.body);
+
+    assert.equal(request.headers['x-manifold-signature'], ManifoldWebhooks.sign(request.body, 's3cret'));
+    assert.equal(request.headers['x-manifold-event'], 'join');
+    assert.equal(request.headers['content-type'], 'application/json');
+    assert.equal(typeof id, 'string');
+    assert.equal(typeof time, 'number');
+    assert.deepEqual(payload, { event: 'join', room: null, player: 'alice', data: { id: 1 } });
+  });
+
+  it('leaves out the signature for targets without a secret', async () => {
+    await send([{ url: `${baseUrl}/unsigned`, secret: '', events: [] }]);
+
+    assert.equal(requests[0].headers['x-manifold-signature'], undefined);
+  });
+
+  it('only sends events to the targets that want them', async () => {
+    await send(
+      [
+        { url: `${baseUrl}/everything`, secret: '', events: [] },
+        { url: `${baseUrl}/joins`, secret: '', events: ['join'] },
+        { url: `${baseUrl}/leaves`, secret: '', events: ['leave'] },
+      ],
+      'leave',
+    );
+
+    assert.deepEqual(requests.map((i) => i.path).sort(), ['/everything', '/leaves']);
+  });
+
+  it('retries failed requests with an increasing delay, keeping the same event id', async () => {
+    responses['/flaky'] = [500, 503, 429];
+
+    await send([{ url: `${baseUrl}/flaky`, secret: '', events: [] }]);
+
+    assert.equal(requests.length, 4);
+    assert.equal(new Set(requests.map((i) => JSON.parse(i.body).id)).size, 1);
+
+    const delays = requests.slice(1).map((request, i) => request.receivedAt - requests[i].receivedAt);
+
+    assert.ok(delays[0] >= 45, `the first retry came after ${delays[0]}ms`);
+    assert.ok(delays[1] >= 95, `the second retry came after ${delays[1]}ms`);
+    assert.ok(delays[2] >= 195, `the third retry came after ${delays[2]}ms`);
+  });
+
+  it('gives up after running out of retries, or when the target turns the event down', async () => {
+    responses['/down'] = [500, 500, 500, 500, 500];
+    await send([{ url: `${baseUrl}/down`, secret: '', events: [] }]);
+    assert.equal(requests.length, 4);
+
+    responses['/rejected'] = [400];
+    await send([{ url: `${baseUrl}/rejected`, secret: '', events: [] }]);
+    assert.equal(requests.length, 1);
+  });
+});